@@ -1,5 +1,5 @@
 import "@/lib/index.css";
-import SpectrogramPlayer from "@/lib/SpectrogramPlayer";
+import SpectrogramDropzone from "@/lib/SpectrogramDropzone";
 
 import src from "./assets/audio_peggy.mp3";
 
@@ -7,8 +7,8 @@ import src from "./assets/audio_peggy.mp3";
 function App() {
   return (
     <div className="mx-auto flex flex-col items-center max-w-screen-lg h-screen">
-      <SpectrogramPlayer
-        src={src}
+      <SpectrogramDropzone
+        initialSrc={src}
         sampleRate={16000}
 
         n_fft={1024}
@@ -84,6 +84,7 @@ export interface AudioEngine {
     pause(): void;
     seek(newTime: number): void;
     setPlaybackRate(rate: number): void;
+    setPreservePitch(enabled: boolean): void;
     setLoopMode(enabled: boolean, start?: number, end?: number): void;
     setVolume(volume: number): void;
     getDuration(): number;
@@ -92,6 +93,9 @@ export interface AudioEngine {
     getStatus(): AudioEngineStatus;
     onEnded(callback: () => void): void;
     onTimeUpdate(callback: (currentTime: number) => void): void;
+    // Only engines driven from outside the player (an external media element) report these
+    onPlayStateChange?(callback: (isPlaying: boolean) => void): void;
+    onRateChange?(callback: (rate: number) => void): void;
     destroy(): void;
 }
 
@@ -121,6 +125,7 @@ export function createAudioEngine(
     src: string,
     options?: {
         sampleRate?: number;
+        mediaElement?: HTMLMediaElement;
     }
 ): Promise<AudioEngine> {
     return new Promise(async (resolve, reject) => {
@@ -132,7 +137,7 @@ export function createAudioEngine(
                 const { default: WebAudioEngine } = await import('./WebAudioEngine');
                 engine = new WebAudioEngine(options?.sampleRate || 44100);
             } else {
-                engine = new HTML5AudioEngine(src);
+                engine = new HTML5AudioEngine(src, options?.mediaElement);
             }
 
             // Initialize the engine
@@ -151,37 +156,71 @@ export function createAudioEngine(
 
 /**
  * HTML5AudioEngine - A wrapper class for HTML5 Audio API operations
- * Implements the same interface as WebAudioEngine for consistent usage
+ * Implements the same interface as WebAudioEngine for consistent usage.
+ * It can also drive an existing <audio> or <video> element owned by the page, in which
+ * case it follows the element's own controls and leaves its source alone.
  */
 export class HTML5AudioEngine implements AudioEngine {
-    private audio: HTMLAudioElement;
+    private audio: HTMLMediaElement;
     private src: string;
+    private external: boolean;
     private intervalId: number | null = null;
     private loopMode: boolean = false;
     private loopStart: number = 0;
     private loopEnd: number = 0;
     private onEndedCallback: (() => void) | null = null;
     private onTimeUpdateCallback: ((currentTime: number) => void) | null = null;
+    private onPlayStateChangeCallback: ((isPlaying: boolean) => void) | null = null;
+    private onRateChangeCallback: ((rate: number) => void) | null = null;
     private timeUpdateInterval: number | null = null;
+    private loopTimeout: number | null = null;
+    private listeners: [string, () => void][] = [];
+    // Settles an initialize() still waiting on an external element's metadata
+    private cancelInitialize: (() => void) | null = null;
 
-    constructor(audioSrc: string) {
+    constructor(audioSrc: string, mediaElement?: HTMLMediaElement) {
         this.src = audioSrc;
-        this.audio = new Audio();
+        this.external = mediaElement !== undefined;
+        this.audio = mediaElement ?? new Audio();
     }
 
     /**
      * Initialize the audio element
      */
     async initialize(): Promise<boolean> {
-        console.log("[HTML5AudioEngine] Initializing with source:", this.src);
+        console.log("[HTML5AudioEngine] Initializing with source:", this.external ? "external media element" : this.src);
 
         try {
-            this.audio.src = this.src;
-            this.audio.preload = "auto";
+            if (!this.external) {
+                this.audio.src = this.src;
+                this.audio.preload = "auto";
+            }
 
             // Set up event listeners
             this.setupEventListeners();
 
+            // An external element only needs its metadata, since the page decides when it loads
+            if (this.external) {
+                return new Promise<boolean>((resolve) => {
+                    if (this.audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+                        resolve(true);
+                        return;
+                    }
+                    // An element with preload="none" may never load, so destroy() settles this as well
+                    const settle = (success: boolean) => {
+                        this.audio.removeEventListener('loadedmetadata', onLoadedMetadata);
+                        this.audio.removeEventListener('error', onError);
+                        this.cancelInitialize = null;
+                        resolve(success);
+                    };
+                    const onLoadedMetadata = () => settle(true);
+                    const onError = () => settle(false);
+                    this.audio.addEventListener('loadedmetadata', onLoadedMetadata);
+                    this.audio.addEventListener('error', onError);
+                    this.cancelInitialize = () => settle(false);
+                });
+            }
+
             return new Promise<boolean>((resolve) => {
                 const canPlayHandler = () => {
                     console.log("[HTML5AudioEngine] Audio is ready to play");
@@ -216,12 +255,12 @@ export class HTML5AudioEngine implements AudioEngine {
      */
     private setupEventListeners(): void {
         // Handle native ended event
-        this.audio.addEventListener('ended', () => {
+        this.listen('ended', () => {
             console.log("[HTML5AudioEngine] Audio playback ended");
 
             if (this.loopMode) {
-                console.log("[HTML5AudioEngine] Loop mode active, restarting from beginning");
-                this.play(0);
+                console.log("[HTML5AudioEngine] Loop mode active, restarting from loop start");
+                this.play(this.hasLoopRange() ? this.loopStart : 0);
             } else if (this.onEndedCallback) {
 
                 this.onEndedCallback();
@@ -229,11 +268,32 @@ export class HTML5AudioEngine implements AudioEngine {
         });
 
         // Handle time updates for our callback
-        this.audio.addEventListener('timeupdate', () => {
+        this.listen('timeupdate', () => {
             if (this.onTimeUpdateCallback) {
                 this.onTimeUpdateCallback(this.audio.currentTime);
             }
         });
+
+        // Follow play, pause and rate changes made outside the player, e.g. native video controls
+        this.listen('play', () => {
+            this.startTimeUpdateInterval();
+            this.onPlayStateChangeCallback?.(true);
+        });
+        this.listen('pause', () => {
+            this.stopTimeUpdateInterval();
+            this.onPlayStateChangeCallback?.(false);
+        });
+        this.listen('ratechange', () => {
+            this.onRateChangeCallback?.(this.audio.playbackRate);
+        });
+    }
+
+    /**
+     * Add a listener to the media element, remembered so destroy() can remove it
+     */
+    private listen(event: string, handler: () => void): void {
+        this.audio.addEventListener(event, handler);
+        this.listeners.push([event, handler]);
     }
 
     /**
@@ -280,6 +340,7 @@ export class HTML5AudioEngine implements AudioEngine {
      */
     seek(newTime: number): void {
         console.log(`[HTML5AudioEngine] Seeking to ${newTime}s`);
+        this.clearLoopTimeout();
         this.audio.currentTime = Math.max(0, Math.min(newTime, this.audio.duration));
     }
 
@@ -288,40 +349,90 @@ export class HTML5AudioEngine implements AudioEngine {
      */
     setPlaybackRate(rate: number): void {
         console.log(`[HTML5AudioEngine] Setting playback rate to ${rate}`);
+        this.clearLoopTimeout();
         this.audio.playbackRate = rate;
     }
 
     /**
-     * Configure looping behavior
-     * Note: Custom loop ranges are handled by the PlaybackProvider
+     * Keep the pitch when the playback rate changes. Media elements do this natively,
+     * and an external element keeps whatever the page set.
+     */
+    setPreservePitch(enabled: boolean): void {
+        if (!this.external) {
+            this.audio.preservesPitch = enabled;
+        }
+    }
+
+    /**
+     * Configure looping behavior. Media elements can only loop the whole file natively,
+     * so a loop range is emulated by jumping back to `start` as close to `end` as timers allow.
      */
     setLoopMode(enabled: boolean, start: number = 0, end: number = 0): void {
         this.loopMode = enabled;
         this.loopStart = start;
         this.loopEnd = end;
+        this.clearLoopTimeout();
 
-        // Only enable native loop for whole file looping
-        this.audio.loop = enabled;
+        // Only enable native loop for whole file looping, and never override an external element's own setting
+        if (!this.external) {
+            this.audio.loop = enabled && !this.hasLoopRange();
+        }
 
         if (enabled) {
-            console.log("[HTML5AudioEngine] Loop mode enabled");
+            console.log(`[HTML5AudioEngine] Loop mode enabled${this.hasLoopRange() ? ` (${start}s - ${end}s)` : ""}`);
+            if (!this.audio.paused) {
+                this.startTimeUpdateInterval();
+            }
         } else {
             console.log("[HTML5AudioEngine] Loop mode disabled");
         }
     }
 
+    private hasLoopRange(): boolean {
+        return this.loopEnd > this.loopStart;
+    }
+
+    /**
+     * Jump back to the loop start once the loop end is reached. When the end is less
+     * than one update away, a timeout aimed at the end itself keeps the overshoot small.
+     */
+    private checkLoopBoundary(): void {
+        if (!this.loopMode || !this.hasLoopRange() || this.audio.paused || this.loopTimeout !== null) return;
+
+        const remaining = (this.loopEnd - this.audio.currentTime) / this.audio.playbackRate * 1000;
+        if (remaining <= 0) {
+            this.audio.currentTime = this.loopStart;
+        } else if (remaining <= AUDIO_ENGINE_UPDATE_INTERVAL_MS) {
+            this.loopTimeout = window.setTimeout(() => {
+                this.loopTimeout = null;
+                if (this.loopMode && this.hasLoopRange() && !this.audio.paused) {
+                    this.audio.currentTime = this.loopStart;
+                }
+            }, remaining);
+        }
+    }
+
+    private clearLoopTimeout(): void {
+        if (this.loopTimeout !== null) {
+            clearTimeout(this.loopTimeout);
+            this.loopTimeout = null;
+        }
+    }
+
     /**
      * Start the time update interval for more frequent updates
      */
     private startTimeUpdateInterval(): void {
         this.stopTimeUpdateInterval();
 
-        // Only start interval if we need to update time
-        if (!this.onTimeUpdateCallback) return;
+        // Only start interval if we need to update time or watch a loop boundary
+        if (!this.onTimeUpdateCallback && !this.loopMode) return;
 
         this.timeUpdateInterval = window.setInterval(() => {
             if (this.audio.paused) return;
 
+            this.checkLoopBoundary();
+
             // Call the time update callback if registered
             if (this.onTimeUpdateCallback) {
                 this.onTimeUpdateCallback(this.audio.currentTime);
@@ -337,6 +448,7 @@ export class HTML5AudioEngine implements AudioEngine {
             clearInterval(this.timeUpdateInterval);
             this.timeUpdateInterval = null;
         }
+        this.clearLoopTimeout();
     }
 
     /**
@@ -388,6 +500,20 @@ export class HTML5AudioEngine implements AudioEngine {
         }
     }
 
+    /**
+     * Set callback for play and pause, including those triggered outside the player
+     */
+    onPlayStateChange(callback: (isPlaying: boolean) => void): void {
+        this.onPlayStateChangeCallback = callback;
+    }
+
+    /**
+     * Set callback for playback rate changes, including those made outside the player
+     */
+    onRateChange(callback: (rate: number) => void): void {
+        this.onRateChangeCallback = callback;
+    }
+
     /**
      * Get the current playback status
      */
@@ -410,8 +536,17 @@ export class HTML5AudioEngine implements AudioEngine {
     destroy(): void {
         console.log("[HTML5AudioEngine] Cleaning up resources");
         this.stopTimeUpdateInterval();
+        this.cancelInitialize?.();
 
         // Remove all event listeners
+        for (const [event, handler] of this.listeners) {
+            this.audio.removeEventListener(event, handler);
+        }
+        this.listeners = [];
+
+        // An external element belongs to the page, along with its handlers and source
+        if (this.external) return;
+
         this.audio.onended = null;
         this.audio.ontimeupdate = null;
         this.audio.onerror = null;
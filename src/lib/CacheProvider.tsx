@@ -0,0 +1,132 @@
+import { createContext, useContext, useMemo } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { experimental_createQueryPersister, PersistedClient, PersistedQuery, PersistQueryClientProvider, removeOldestQuery } from '@tanstack/react-query-persist-client'
+import { createSyncStoragePersister } from '@tanstack/query-sync-storage-persister'
+import { createIndexedDBStorage } from "@/lib/indexeddb-storage";
+import { CacheMode } from "@/lib/types";
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 1000 * 60 * 60 * 24, // 24 hours
+    },
+  },
+})
+
+// JSON has no typed arrays, so spectrogram matrices are written as base64 of their bytes
+const FLOAT32_TAG = "__float32";
+
+function float32ToBase64(array: Float32Array): string {
+  const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+  let binary = "";
+  // Spread in slices so long arrays don't exceed the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToFloat32(base64: string): Float32Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Float32Array(bytes.buffer);
+}
+
+const localStoragePersister = createSyncStoragePersister({
+  storage: window.localStorage,
+  serialize: (client: PersistedClient) => JSON.stringify(client, (_key, value) =>
+    value instanceof Float32Array ? { [FLOAT32_TAG]: float32ToBase64(value) } : value
+  ),
+  deserialize: (cachedString: string) => JSON.parse(cachedString, (_key, value) =>
+    value && typeof value === "object" && typeof value[FLOAT32_TAG] === "string" ? base64ToFloat32(value[FLOAT32_TAG]) : value
+  ),
+  // Drop the oldest results when the quota is full rather than persisting nothing
+  retry: removeOldestQuery,
+})
+
+// IndexedDB entries are bounded by the size budget rather than by age
+const INDEXEDDB_MAX_AGE = 1000 * 60 * 60 * 24 * 30; // 30 days
+
+// Options spread into the audio and spectrogram queries
+type CacheQueryOptions = {
+  // Generic over the query data, so one persister serves every query
+  persister?: ReturnType<typeof experimental_createQueryPersister<PersistedQuery>>["persisterFn"];
+  gcTime?: number;
+};
+
+const CacheContext = createContext<CacheQueryOptions>({});
+
+/**
+ * Query options for data worth caching (decoded audio and spectrogram matrices),
+ * according to the player's `cache` mode
+ */
+export function useCacheOptions() {
+  return useContext(CacheContext);
+}
+
+export type CacheProviderProps = {
+  children: React.ReactNode;
+  cache: CacheMode;
+  // Size budget of the IndexedDB cache in bytes
+  cacheBudget: number;
+};
+
+/**
+ * Query client setup for each cache mode:
+ * - "localStorage" persists the whole query cache as JSON, skipping queries with `meta: { persist: false }`.
+ *   Spectrograms are kept, decoded audio is too large for the quota and is decoded again.
+ * - "indexeddb" persists the audio and spectrogram queries one by one through structured clone
+ * - "memory" keeps results for the lifetime of the page
+ * - "none" drops results as soon as no player uses them
+ */
+function CacheProvider(props: CacheProviderProps) {
+  const { children, cache, cacheBudget } = props;
+
+  const queryOptions = useMemo<CacheQueryOptions>(() => {
+    if (cache === "indexeddb") {
+      const persister = experimental_createQueryPersister<PersistedQuery>({
+        storage: createIndexedDBStorage({ maxBytes: cacheBudget }),
+        maxAge: INDEXEDDB_MAX_AGE,
+        // Structured clone stores the query as is
+        serialize: (persistedQuery) => persistedQuery,
+        deserialize: (persistedQuery) => persistedQuery,
+      });
+      return { persister: persister.persisterFn };
+    }
+    if (cache === "none") {
+      return { gcTime: 0 };
+    }
+    return {};
+  }, [cache, cacheBudget]);
+
+  const content = (
+    <CacheContext.Provider value={queryOptions}>
+      {children}
+    </CacheContext.Provider>
+  );
+
+  if (cache === "localStorage") {
+    return (
+      <PersistQueryClientProvider client={queryClient} persistOptions={{
+        persister: localStoragePersister,
+        dehydrateOptions: {
+          // Queries can opt out of persistence with `meta: { persist: false }`
+          shouldDehydrateQuery: (query) => query.state.status === "success" && query.meta?.persist !== false,
+        },
+      }}>
+        {content}
+      </PersistQueryClientProvider>
+    );
+  }
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      {content}
+    </QueryClientProvider>
+  );
+}
+
+export default CacheProvider;
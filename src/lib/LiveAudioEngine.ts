@@ -0,0 +1,228 @@
+import { AudioEngine, AudioEngineStatus } from './AudioEngine';
+import { RawAudio } from './types';
+
+// Posts every render quantum of the input, mixed down to mono, to the main thread
+const CAPTURE_PROCESSOR = `
+class CaptureProcessor extends AudioWorkletProcessor {
+    process(inputs) {
+        const channels = inputs[0];
+        if (channels && channels.length > 0) {
+            const block = new Float32Array(channels[0].length);
+            for (const channel of channels) {
+                for (let i = 0; i < block.length; i++) block[i] += channel[i] / channels.length;
+            }
+            this.port.postMessage(block, [block.buffer]);
+        }
+        return true;
+    }
+}
+registerProcessor('capture-processor', CaptureProcessor);
+`;
+
+/**
+ * LiveAudioEngine - Captures a MediaStream (microphone or WebRTC track) into a growing
+ * mono buffer. It implements the AudioEngine interface so the player can treat a live
+ * capture like playback: play() starts capturing, pause() stops, and the current time
+ * is always the live edge.
+ */
+export class LiveAudioEngine implements AudioEngine {
+    private context: AudioContext | null = null;
+    private sourceNode: MediaStreamAudioSourceNode | null = null;
+    private captureNode: AudioWorkletNode | null = null;
+    private buffer = new Float32Array(0);
+    private length = 0;
+    private capturing = false;
+    private sampleRate: number;
+    private onEndedCallback: (() => void) | null = null;
+    private onTimeUpdateCallback: ((currentTime: number) => void) | null = null;
+    private onCaptureCallback: ((length: number) => void) | null = null;
+    // "ended" listeners on the stream's tracks, removed on destroy since the tracks outlive the engine
+    private trackListeners: { track: MediaStreamTrack; listener: () => void }[] = [];
+
+    constructor(private stream: MediaStream, desiredSampleRate: number = 16000) {
+        this.sampleRate = desiredSampleRate;
+    }
+
+    /**
+     * Create the audio context and the capture worklet
+     */
+    async initialize(): Promise<boolean> {
+        if (this.context) {
+            console.log("[LiveAudioEngine] Context already initialized");
+            return true;
+        }
+
+        try {
+            const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+            this.context = new AudioContextClass({ sampleRate: this.sampleRate });
+            this.sampleRate = this.context.sampleRate;
+            console.log(`[LiveAudioEngine] Created AudioContext with sample rate: ${this.sampleRate}`);
+
+            const moduleURL = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: "application/javascript" }));
+            try {
+                await this.context.audioWorklet.addModule(moduleURL);
+            } finally {
+                URL.revokeObjectURL(moduleURL);
+            }
+
+            this.sourceNode = this.context.createMediaStreamSource(this.stream);
+            this.captureNode = new AudioWorkletNode(this.context, "capture-processor");
+            this.captureNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+                if (this.capturing) this.append(event.data);
+            };
+            this.sourceNode.connect(this.captureNode);
+            // The worklet outputs silence; connecting it keeps it in the rendered graph
+            this.captureNode.connect(this.context.destination);
+
+            // Stop when every track of the stream has ended
+            for (const track of this.stream.getAudioTracks()) {
+                const listener = () => {
+                    if (this.stream.getAudioTracks().every((other) => other.readyState === "ended")) {
+                        console.log("[LiveAudioEngine] Stream ended");
+                        this.pause();
+                        this.onEndedCallback?.();
+                    }
+                };
+                track.addEventListener("ended", listener);
+                this.trackListeners.push({ track, listener });
+            }
+
+            return true;
+        } catch (error) {
+            console.error("[LiveAudioEngine] Failed to initialize:", error);
+            return false;
+        }
+    }
+
+    // Grow the buffer by doubling so appends stay amortised O(1)
+    private append(block: Float32Array) {
+        if (this.length + block.length > this.buffer.length) {
+            const grown = new Float32Array(Math.max(this.sampleRate, (this.length + block.length) * 2));
+            grown.set(this.buffer.subarray(0, this.length));
+            this.buffer = grown;
+        }
+        this.buffer.set(block, this.length);
+        this.length += block.length;
+        this.onTimeUpdateCallback?.(this.getCurrentTime());
+        this.onCaptureCallback?.(this.length);
+    }
+
+    /**
+     * Start capturing. Capturing always continues from the live edge.
+     */
+    play(): boolean {
+        if (!this.context) return false;
+        console.log("[LiveAudioEngine] Starting capture");
+        this.context.resume();
+        this.capturing = true;
+        return true;
+    }
+
+    /**
+     * Stop capturing, keeping what was captured so far
+     */
+    pause(): void {
+        console.log("[LiveAudioEngine] Stopping capture");
+        this.capturing = false;
+        this.context?.suspend();
+    }
+
+    // A live capture cannot be sought, sped up or looped
+    seek(_newTime: number): void { }
+    setPlaybackRate(_rate: number): void { }
+    setPreservePitch(_enabled: boolean): void { }
+    setLoopMode(_enabled: boolean, _start?: number, _end?: number): void { }
+    // Captured audio is never sent to the speakers, to avoid feedback
+    setVolume(_volume: number): void { }
+
+    getSampleRate(): number {
+        return this.sampleRate;
+    }
+
+    /**
+     * Number of samples captured so far
+     */
+    getLength(): number {
+        return this.length;
+    }
+
+    /**
+     * Copy of the captured samples in [start, end)
+     */
+    getSamples(start: number = 0, end: number = this.length): Float32Array {
+        return this.buffer.slice(Math.max(0, start), Math.min(end, this.length));
+    }
+
+    /**
+     * Everything captured so far, ready to be reviewed as a regular audio source
+     */
+    getCapturedAudio(): RawAudio {
+        return { samples: this.getSamples(), sampleRate: this.sampleRate };
+    }
+
+    getDuration(): number {
+        return this.length / this.sampleRate;
+    }
+
+    getCurrentTime(): number {
+        return this.getDuration();
+    }
+
+    isAudioPlaying(): boolean {
+        return this.capturing;
+    }
+
+    getStatus(): AudioEngineStatus {
+        return {
+            isPlaying: this.capturing,
+            currentTime: this.getCurrentTime(),
+            duration: this.getDuration(),
+            playbackRate: 1,
+            loopMode: false,
+            loopStart: 0,
+            loopEnd: 0,
+            volume: 1,
+        };
+    }
+
+    onEnded(callback: () => void): void {
+        this.onEndedCallback = callback;
+    }
+
+    onTimeUpdate(callback: (currentTime: number) => void): void {
+        this.onTimeUpdateCallback = callback;
+    }
+
+    /**
+     * Set callback for newly captured samples, called with the total captured length
+     */
+    onCapture(callback: (length: number) => void): void {
+        this.onCaptureCallback = callback;
+    }
+
+    /**
+     * Disconnect from the stream. The stream's tracks belong to the caller and keep running.
+     */
+    destroy(): void {
+        console.log("[LiveAudioEngine] Cleaning up resources");
+        this.capturing = false;
+        for (const { track, listener } of this.trackListeners) {
+            track.removeEventListener("ended", listener);
+        }
+        this.trackListeners = [];
+        this.onEndedCallback = null;
+        this.onTimeUpdateCallback = null;
+        this.onCaptureCallback = null;
+        if (this.captureNode) {
+            this.captureNode.port.onmessage = null;
+            this.captureNode.disconnect();
+            this.captureNode = null;
+        }
+        this.sourceNode?.disconnect();
+        this.sourceNode = null;
+        this.context?.close();
+        this.context = null;
+    }
+}
+
+export default LiveAudioEngine;
@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { CircleStop } from "lucide-react";
+import LiveAudioEngine from "@/lib/LiveAudioEngine";
+import { buildColorLut, buildDisplayLut, colorizeSpectrogram } from "@/lib/colorize";
+import { getWorkerPool } from "@/lib/worker-pool";
+import { stableStringify } from "@/lib/cache-key";
+import { Colormap, CustomColormap, DbLimit, RawAudio, SpectrogramMatrix, SpectrogramScale, WindowFunction } from "@/lib/types";
+
+const log = (func: string, msg: string) => {
+  console.log(`[LiveSpectrogram] ${func}: ${msg}`);
+};
+
+interface LiveSpectrogramProps {
+  stream: MediaStream;
+  sampleRate: number;
+  n_fft: number;
+  win_length: number;
+  hop_length: number;
+  f_min: number;
+  f_max: number;
+  n_mels: number;
+  top_db: number;
+  scale: SpectrogramScale;
+  windowFunction: WindowFunction;
+  pad: number;
+  dbMin: DbLimit;
+  dbMax: DbLimit;
+  colormap: Colormap | CustomColormap;
+  gamma: number;
+  contrast: number;
+  brightness: number;
+  transparent: boolean;
+  specHeight: number;
+  // Seconds of audio visible in the waterfall
+  liveWindow: number;
+  // Called with everything captured once the user stops or the stream ends
+  onStop: (audio: RawAudio) => void;
+}
+
+function formatElapsed(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+/**
+ * Scrolling waterfall of a MediaStream. New frames are computed on the worker pool as
+ * audio arrives and drawn at the right edge while older ones scroll off to the left,
+ * like the "scroll" playhead mode with the playhead pinned to the live edge.
+ */
+function LiveSpectrogram(props: LiveSpectrogramProps) {
+  const {
+    stream,
+    sampleRate,
+    n_fft,
+    win_length,
+    hop_length,
+    f_min,
+    f_max,
+    n_mels,
+    top_db,
+    scale,
+    windowFunction,
+    pad,
+    dbMin,
+    dbMax,
+    colormap,
+    gamma,
+    contrast,
+    brightness,
+    transparent,
+    specHeight,
+    liveWindow,
+    onStop,
+  } = props;
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  const displayLut = useMemo(
+    () => buildDisplayLut(buildColorLut(colormap), { gamma, contrast, brightness }),
+    [colormap, gamma, contrast, brightness],
+  );
+
+  // Colour settings apply to frames drawn from now on, without restarting the capture
+  const displayRef = useRef({ displayLut, transparent, dbMin, dbMax, top_db });
+  displayRef.current = { displayLut, transparent, dbMin, dbMax, top_db };
+  const onStopRef = useRef(onStop);
+  onStopRef.current = onStop;
+  // Compared by value, so an inline window object doesn't restart the capture on every render
+  const windowKey = stableStringify(windowFunction);
+
+  useEffect(() => {
+    const engine = new LiveAudioEngine(stream, sampleRate);
+    const controller = new AbortController();
+    const pool = getWorkerPool();
+    // Frames are computed uncentred, since the audio after the live edge doesn't exist yet
+    const params = { n_fft, win_length, hop_length, f_min, f_max, n_mels, scale, window: windowFunction, center: false, pad };
+    const frameLength = Math.max(n_fft, win_length);
+    let nextFrame = 0;
+    let busy = false;
+    let runningMax = -Infinity;
+
+    const draw = (matrix: SpectrogramMatrix) => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      if (!canvas || !ctx) return;
+
+      const { displayLut, transparent, dbMin, dbMax, top_db } = displayRef.current;
+      runningMax = Math.max(runningMax, matrix.max);
+      const max = dbMax === "auto" ? runningMax : dbMax;
+      const min = dbMin === "auto" ? max - top_db : dbMin;
+
+      // One canvas column per frame; CSS stretches the canvas to the element's width
+      const columns = Math.max(1, Math.round((liveWindow * engine.getSampleRate()) / hop_length));
+      if (canvas.width !== columns || canvas.height !== matrix.bins) {
+        canvas.width = columns;
+        canvas.height = matrix.bins;
+      }
+
+      const shown = Math.min(matrix.frames, columns);
+      // "copy" clears what scrolls off, which matters for transparent colormaps
+      ctx.globalCompositeOperation = "copy";
+      ctx.drawImage(canvas, -shown, 0);
+      ctx.globalCompositeOperation = "source-over";
+      const image = colorizeSpectrogram(matrix, displayLut, { min, max }, transparent, {
+        start: matrix.frames - shown,
+        count: shown,
+        step: 1,
+      });
+      ctx.putImageData(image, columns - shown, 0);
+    };
+
+    // Compute every frame whose samples have all arrived, one job at a time
+    const update = async () => {
+      if (busy || controller.signal.aborted) return;
+      const lastFrame = Math.floor((engine.getLength() - frameLength) / hop_length);
+      if (lastFrame < nextFrame) return;
+
+      busy = true;
+      const start = nextFrame * hop_length;
+      const end = lastFrame * hop_length + frameLength;
+      try {
+        const matrix = await pool.run(
+          { samples: engine.getSamples(start, end), sampleRate: engine.getSampleRate(), params: { ...params, top_db: displayRef.current.top_db } },
+          controller.signal,
+        );
+        if (matrix && matrix.frames > 0) {
+          nextFrame += matrix.frames;
+          draw(matrix);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) log("update", `Error computing frames: ${error}`);
+      } finally {
+        busy = false;
+      }
+    };
+
+    const stop = () => {
+      engine.pause();
+      setIsCapturing(false);
+      onStopRef.current(engine.getCapturedAudio());
+    };
+
+    engine.onCapture(() => {
+      update();
+    });
+    engine.onEnded(stop);
+
+    engine.initialize().then((success) => {
+      if (!success || controller.signal.aborted) return;
+      log("initialize", `Capturing at ${engine.getSampleRate()} Hz`);
+      stopRef.current = stop;
+      engine.play();
+      setIsCapturing(true);
+    });
+
+    const elapsedInterval = setInterval(() => setElapsed(engine.getDuration()), 250);
+
+    return () => {
+      controller.abort();
+      clearInterval(elapsedInterval);
+      stopRef.current = null;
+      engine.destroy();
+    };
+  }, [stream, sampleRate, n_fft, win_length, hop_length, f_min, f_max, n_mels, scale, windowKey, pad, liveWindow]);
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <canvas
+        ref={canvasRef}
+        className="w-full"
+        style={{ height: specHeight, imageRendering: "pixelated" }}
+      />
+      <div className="w-full flex justify-center items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => stopRef.current?.()} disabled={!isCapturing}>
+          <CircleStop className="w-4 h-4" />
+          Stop
+        </Button>
+        <span className="text-sm font-mono text-gray-500">
+          {isCapturing ? "● " : ""}{formatElapsed(elapsed)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default LiveSpectrogram;
@@ -9,12 +9,14 @@ import {
   useCallback,
 } from "react";
 import { useSuspenseQuery } from "@tanstack/react-query";
-import { decodeAudioData, tryCatch } from "@/lib/utils";
+import { useCacheOptions } from "@/lib/CacheProvider";
+import { audioSourceToBlob, loadAudioSource } from "@/lib/utils";
+import { audioQueryKey, hashSamples, sourceIdentity, urlContentVersion } from "@/lib/cache-key";
 import { useHotkeys } from "react-hotkeys-hook";
-import { useZoom } from "@/lib/ZoomProvider";
 import { AudioEngine, createAudioEngine, AudioEngineEvents, useIsPlaying } from "@/lib/AudioEngine";
 import { AudioControls } from "@/lib/AudioControls";
 import { SettingsPanel } from "./SettingsPanel";
+import { AudioSource } from "@/lib/types";
 
 export type PlaybackContextType = {
   duration: number | null;
@@ -27,14 +29,19 @@ export type PlaybackContextType = {
   setCurrentTime: (newTime: number) => void;
   setPlaybackRate: (newTime: number) => void;
   togglePlayPause: () => void;
+  toggleLoopMode: () => void;
   play: () => void;
   pause: () => void;
   isPlaying: boolean;
-  audioSamples: Float32Array;
-  audioSrc: string;
+  audioSamples: Float32Array | Float32Array[];
+  audioSrc: AudioSource;
+  // Identity of the audio content for cache keys: the caller's cacheKey or a hash of the samples
+  audioKey: string;
   isLoadingAudio: boolean;
   audioError: Error | null;
   backend: "html5" | "webaudio";
+  // Range loop mode repeats, set by the ZoomProvider below this provider
+  setLoopRange: (startTime: number, endTime: number) => void;
 };
 
 export const PlaybackContext = createContext<PlaybackContextType>({
@@ -48,23 +55,34 @@ export const PlaybackContext = createContext<PlaybackContextType>({
   setCurrentTime: () => { },
   setPlaybackRate: () => { },
   togglePlayPause: () => { },
+  toggleLoopMode: () => { },
   play: () => { },
   pause: () => { },
   isPlaying: false,
   audioSamples: new Float32Array(0),
   audioSrc: "",
+  audioKey: "",
   isLoadingAudio: false,
   audioError: null,
   backend: "html5",
+  setLoopRange: () => { },
 });
 
 export function usePlayback() {
   return useContext(PlaybackContext);
 }
 
+type DecodedAudio = {
+  samples: Float32Array | Float32Array[];
+  sampleRate: number;
+  numChannels: number;
+  hash: string;
+};
+
 export type PlaybackProviderProps = {
   children: JSX.Element | JSX.Element[];
-  src: string;
+  src: AudioSource;
+  cacheKey?: string;
   settings: boolean;
   controls: boolean;
   sampleRate: number;
@@ -73,24 +91,62 @@ export type PlaybackProviderProps = {
   playheadModeInitial?: string;
   isLooping?: boolean;
   backend?: "html5" | "webaudio";
+  // Keep the pitch when playing slower or faster
+  preservePitch?: boolean;
+  // Existing <audio> or <video> element to play through instead of a player-owned one
+  mediaElement?: HTMLMediaElement;
   zoomStartTime?: number;
   zoomEndTime?: number;
 };
 
 
 
+/**
+ * URL the HTML5 backend can play for a source. In-memory sources get an object URL,
+ * which lives exactly as long as the source is in use.
+ */
+function usePlayableURL(src: AudioSource, enabled: boolean): string | null {
+  const [url, setURL] = useState<string | null>(typeof src === "string" ? src : null);
+
+  useEffect(() => {
+    if (typeof src === "string") {
+      setURL(src);
+      return;
+    }
+    if (!enabled) {
+      setURL(null);
+      return;
+    }
+    const objectURL = URL.createObjectURL(audioSourceToBlob(src));
+    console.log("[PlaybackProvider] Created object URL for in-memory audio source");
+    setURL(objectURL);
+    return () => {
+      setURL(null);
+      URL.revokeObjectURL(objectURL);
+    };
+  }, [src, enabled]);
+
+  return url;
+}
+
 export function PlaybackProvider(props: PlaybackProviderProps) {
   const {
     children,
     src,
+    cacheKey,
     sampleRate: requestedSampleRate,
     currentTimeInitial = 0,
     playbackSpeedInitial = 1.0,
     playheadModeInitial = "page",
     controls = true,
-    backend = "html5",
+    backend: requestedBackend = "html5",
+    mediaElement = undefined,
+    preservePitch = true,
   } = props;
 
+  // An external element is always played through the HTML5 backend
+  const backend = mediaElement ? "html5" : requestedBackend;
+
   const settings = props.settings ? true : false;
   const [duration, setDuration] = useState<number | null>(null);
   const [currentTime, _setCurrentTime] = useState(currentTimeInitial);
@@ -103,38 +159,55 @@ export function PlaybackProvider(props: PlaybackProviderProps) {
   const [engineInitialized, setEngineInitialized] = useState(false);
   const isPlaying = useIsPlaying(audioEngineRef, eventsRef, engineInitialized);
   const [backendState, setBackendState] = useState<"html5" | "webaudio">(backend);
-  const { startTime, endTime } = useZoom();
+  const [loopRange, setLoopRangeState] = useState({ startTime: 0, endTime: 0 });
 
 
+  const cacheOptions = useCacheOptions();
+
+  // Check what is behind a URL before reusing anything cached for it. Skipped when the
+  // caller names the content with a cacheKey, and for in-memory sources.
+  const { data: contentVersion } = useSuspenseQuery<string>({
+    queryKey: ["audio-version", sourceIdentity(src), cacheKey ?? ""],
+    queryFn: () => (typeof src === "string" && cacheKey === undefined ? urlContentVersion(src) : Promise.resolve("")),
+    meta: { persist: false },
+    // Revalidated on every mount
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
   // Fetch audio data for WebAudio
   const {
     data: audioData,
     error: audioError,
     isLoading: isLoadingAudio,
-  } = useSuspenseQuery({
-    queryKey: ['audio', src, requestedSampleRate],
+  } = useSuspenseQuery<DecodedAudio>({
+    queryKey: audioQueryKey(src, requestedSampleRate, cacheKey, contentVersion),
+    // Decoded audio alone would fill the localStorage quota, so only the IndexedDB cache stores it
+    meta: { persist: false },
+    ...cacheOptions,
     queryFn: async () => {
-
-      const { data: response, error } = await tryCatch<Response>(fetch(src));
-      if (error) {
-        console.error("[PlaybackProvider] Error fetching audio:", error);
-        throw error;
-      }
-      const arrayBuffer = await response.arrayBuffer();
-      const { samples, sampleRate } = await decodeAudioData(arrayBuffer, requestedSampleRate);
+      const { samples, sampleRate } = await loadAudioSource(src, requestedSampleRate);
 
       // handle stereo samples
       const numChannels = Array.isArray(samples) ? samples.length : 1;
       const length = Array.isArray(samples) ? samples[0].length : samples.length;
       console.log(`[PlaybackProvider] Audio decoded successfully. Sample rate: ${sampleRate}, Samples: ${length}, Channels: ${numChannels}`);
       setSampleRate(sampleRate);
-      return { samples, sampleRate, numChannels };
+      const hash = await hashSamples(samples);
+      return { samples, sampleRate, numChannels, hash };
 
     },
   });
 
 
 
+  const playableURL = usePlayableURL(src, backend === "html5" && !mediaElement);
+  // The WebAudio engine plays the decoded samples, so each new source needs a new engine
+  // even when there is no URL to tell them apart
+  const engineAudio = backend === "webaudio" ? audioData : null;
+  // An external element is adopted again when the page gives it a new source
+  const mediaElementSource = mediaElement ? src : null;
+
   // Initialize the audio engine
   useEffect(() => {
     console.log(`[PlaybackProvider] Initializing audio engine (${backend})`);
@@ -153,22 +226,43 @@ export function PlaybackProvider(props: PlaybackProviderProps) {
     cleanup();
 
     // Create the new engine
-    createAudioEngine(backend, src, { sampleRate: requestedSampleRate })
+    // The HTML5 backend waits for an object URL when the source is in memory
+    if (backend === "html5" && !playableURL && !mediaElement) {
+      return;
+    }
+
+    // Set once a newer source or backend has replaced this engine
+    let cancelled = false;
+    let removeErrorListener: (() => void) | null = null;
+
+    createAudioEngine(backend, playableURL ?? "", { sampleRate: requestedSampleRate, mediaElement })
       .then(engine => {
+        if (cancelled) {
+          engine.destroy();
+          return;
+        }
         console.log(`[PlaybackProvider] ${backend} audio engine initialized successfully`);
         audioEngineRef.current = engine;
         setBackendState(backend);
+        if (mediaElement) {
+          // Start from wherever the external element already is
+          const status = engine.getStatus();
+          _setCurrentTime(status.currentTime);
+          _setPlaybackRate(status.playbackRate);
+        }
         setEngineInitialized(true);
 
         // Set up callbacks
         engine.onTimeUpdate(time => {
           _setCurrentTime(time);
+        });
 
-          // Implement custom loop in the time update callback
-          if (mode === "loop" && isPlaying && startTime < endTime && time >= endTime) {
-            console.log(`[PlaybackProvider] Loop boundary reached at ${time}s, seeking to ${startTime}s`);
-            engine.seek(startTime);
-          }
+        // Play, pause and rate changes made through the external element's own controls
+        engine.onPlayStateChange?.(isPlaying => {
+          eventsRef.current?.dispatchEvent(isPlaying ? 'play' : 'pause', true);
+        });
+        engine.onRateChange?.(rate => {
+          _setPlaybackRate(rate);
         });
 
         engine.onEnded(() => {
@@ -184,25 +278,31 @@ export function PlaybackProvider(props: PlaybackProviderProps) {
           // Attempt to access the HTML5 audio element for more detailed error handling
           const htmlEngine = engine as any;
 
-          if (htmlEngine.audio && htmlEngine.audio instanceof HTMLAudioElement) {
-            htmlEngine.audio.addEventListener('error', (e: ErrorEvent) => {
+          if (htmlEngine.audio && htmlEngine.audio instanceof HTMLMediaElement) {
+            const audio: HTMLMediaElement = htmlEngine.audio;
+            const onError = (e: Event) => {
               console.error("[PlaybackProvider] HTML5 audio error:", e);
               // Dispatch pause event on error
               if (eventsRef.current) {
                 eventsRef.current.dispatchEvent('pause', true);
               }
-            });
+            };
+            audio.addEventListener('error', onError);
+            // An external element outlives this engine
+            removeErrorListener = () => audio.removeEventListener('error', onError);
           }
 
         }
 
-        // Set initial parameters
-        engine.setPlaybackRate(playbackRate);
-        if (backend === "webaudio" && audioData?.samples && audioData.sampleRate && engine.loadAudioData) {
+        // Set initial parameters; an external element keeps its own rate
+        if (!mediaElement) {
+          engine.setPlaybackRate(playbackRate);
+        }
+        if (engineAudio?.samples && engineAudio.sampleRate && engine.loadAudioData) {
           console.log("[PlaybackProvider] Loading spectrogram audio data into WebAudio engine");
           // handle stereo samples
 
-          engine.loadAudioData(audioData.samples, audioData.sampleRate, audioData.numChannels)
+          engine.loadAudioData(engineAudio.samples, engineAudio.sampleRate, engineAudio.numChannels)
             .then(success => {
               if (success) {
                 // Update duration once audio is loaded
@@ -241,8 +341,12 @@ export function PlaybackProvider(props: PlaybackProviderProps) {
         console.error(`[PlaybackProvider] Error initializing ${backend} audio engine:`, error);
       });
 
-    return cleanup;
-  }, [backend, src, requestedSampleRate]);
+    return () => {
+      cancelled = true;
+      removeErrorListener?.();
+      cleanup();
+    };
+  }, [backend, playableURL, engineAudio, mediaElementSource, requestedSampleRate, mediaElement]);
 
   // Update engine configuration when parameters change
   useEffect(() => {
@@ -250,15 +354,29 @@ export function PlaybackProvider(props: PlaybackProviderProps) {
 
     // Update playback rate
     audioEngineRef.current.setPlaybackRate(playbackRate);
-
-    // Configure loop in the audio engine
-    if (mode === "loop") {
-      audioEngineRef.current.setLoopMode(false); // We're handling loops in our callback
-    } else {
-      audioEngineRef.current.setLoopMode(false);
-    }
   }, [playbackRate, engineInitialized]);
 
+  useEffect(() => {
+    if (!audioEngineRef.current || !engineInitialized) return;
+
+    audioEngineRef.current.setPreservePitch(preservePitch);
+  }, [preservePitch, engineInitialized]);
+
+  // The engine loops the visible range itself, so loops stay gapless
+  const isLooping = mode === "loop";
+  const loopStart = isLooping ? loopRange.startTime : 0;
+  const loopEnd = isLooping ? loopRange.endTime : 0;
+  useEffect(() => {
+    if (!audioEngineRef.current || !engineInitialized) return;
+
+    audioEngineRef.current.setLoopMode(isLooping, loopStart, loopEnd);
+  }, [isLooping, loopStart, loopEnd, engineInitialized]);
+
+  const setLoopRange = useCallback((startTime: number, endTime: number) => {
+    setLoopRangeState((range) =>
+      range.startTime === startTime && range.endTime === endTime ? range : { startTime, endTime });
+  }, []);
+
   // Unified functions that work with the current audio engine
   const setCurrentTime = useCallback((newTime: number) => {
     _setCurrentTime(newTime);
@@ -366,19 +484,23 @@ export function PlaybackProvider(props: PlaybackProviderProps) {
         playbackRate,
         mode,
         previousMode,
-        sampleRate: sampleRateState,
+        // A restored query skips the queryFn, so prefer the cached rate
+        sampleRate: audioData?.sampleRate ?? sampleRateState,
         setDuration,
         setCurrentTime,
         setPlaybackRate,
         togglePlayPause,
+        toggleLoopMode,
         play,
         pause,
         isPlaying,
-        audioSamples: Array.isArray(audioData?.samples) ? audioData.samples[0] : audioData?.samples || new Float32Array(0),
+        audioSamples: audioData?.samples || new Float32Array(0),
         audioSrc: src,
+        audioKey: cacheKey ?? audioData?.hash ?? "",
         isLoadingAudio: isLoadingAudio || !engineInitialized,
         audioError: audioError as Error | null,
         backend: backendState,
+        setLoopRange,
       }}
     >
       {children}
@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+
+interface SpectrogramColorbarProps {
+  colors: [number, number, number, number][];
+  range: { min: number; max: number };
+  height: number;
+  width?: number;
+}
+
+const GRADIENT_STOPS = 32;
+const TARGET_TICKS = 5;
+
+// Pick a 1/2/5 x 10^n step that gives roughly TARGET_TICKS labels
+function niceStep(span: number) {
+  const rough = span / TARGET_TICKS;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const residual = rough / magnitude;
+  if (residual > 5) return 10 * magnitude;
+  if (residual > 2) return 5 * magnitude;
+  if (residual > 1) return 2 * magnitude;
+  return magnitude;
+}
+
+function SpectrogramColorbar(props: SpectrogramColorbarProps) {
+  const { colors, range, height, width = 12 } = props;
+  const span = range.max - range.min;
+
+  const gradient = useMemo(() => {
+    const stops = [];
+    for (let i = 0; i < GRADIENT_STOPS; i++) {
+      const index = Math.round((i / (GRADIENT_STOPS - 1)) * (colors.length - 1));
+      const [r, g, b] = colors[index];
+      stops.push(`rgb(${r}, ${g}, ${b}) ${((i / (GRADIENT_STOPS - 1)) * 100).toFixed(1)}%`);
+    }
+    return `linear-gradient(to top, ${stops.join(", ")})`;
+  }, [colors]);
+
+  const ticks = useMemo(() => {
+    if (!(span > 0)) return [range.max];
+    const step = niceStep(span);
+    const values = [];
+    for (let value = Math.ceil(range.min / step) * step; value <= range.max + 1e-9; value += step) {
+      values.push(value);
+    }
+    return values;
+  }, [range.min, range.max, span]);
+
+  return (
+    <div className="flex shrink-0 select-none pl-2" style={{ height }}>
+      <div
+        className="rounded-sm"
+        style={{ width, height: "100%", background: gradient }}
+      />
+      <div className="relative ml-1 w-14 text-xs text-neutral-600 dark:text-neutral-400">
+        {ticks.map((value) => (
+          <div
+            key={value}
+            className="absolute left-0 -translate-y-1/2 whitespace-nowrap"
+            style={{ top: `${span > 0 ? ((range.max - value) / span) * 100 : 0}%` }}
+          >
+            {`${Number(value.toFixed(1))} dB`}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default SpectrogramColorbar;
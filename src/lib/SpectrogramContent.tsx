@@ -1,9 +1,15 @@
 import { useRef, useEffect, useState } from "react";
 import { usePlayback } from "@/lib/PlaybackProvider";
 import { useZoom } from "@/lib/ZoomProvider";
+import SpectrogramTiles from "@/lib/SpectrogramTiles";
+import { SpectrogramTileSource } from "@/lib/tiles";
 
 interface SpectrogramContentProps {
-  dataURL: string;
+  source: SpectrogramTileSource;
+  // Draw the whole recording rather than the zoomed window (used by the navigator)
+  overview?: boolean;
+  // Drawn above the spectrogram and below the playhead
+  overlay?: JSX.Element;
   playheadColor?: string;
   playheadWidth?: number;
   height?: number;
@@ -11,7 +17,7 @@ interface SpectrogramContentProps {
 }
 
 function SpectrogramContent(props: SpectrogramContentProps) {
-  const { dataURL, playheadColor, playheadWidth, sampleRate } = props;
+  const { source, overview = false, overlay, playheadColor, playheadWidth, sampleRate } = props;
   const playheadRef = useRef<SVGLineElement>(null);
   const [displayTime, setDisplayTime] = useState(0);
   const prevTimeRef = useRef(0);
@@ -52,15 +58,12 @@ function SpectrogramContent(props: SpectrogramContentProps) {
 
   return (
     <>
-      <image
-        width={duration}
-        height={100}
-        x={0}
-        y={0}
-        href={dataURL}
-        preserveAspectRatio="none"
-        pointerEvents="none"
+      <SpectrogramTiles
+        source={source}
+        startTime={overview ? 0 : startTime}
+        endTime={overview ? duration : endTime}
       />
+      {overlay}
       <line
         ref={playheadRef}
         stroke={playheadColor || "red"}
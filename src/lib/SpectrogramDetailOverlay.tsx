@@ -0,0 +1,179 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { useZoom } from "@/lib/ZoomProvider";
+import { colorizeSpectrogram, DisplayLut } from "@/lib/colorize";
+import { imageDataToObjectURL } from "@/lib/tiles";
+import { getWorkerPool } from "@/lib/worker-pool";
+import { FrequencyScaleParams, frequencyPosition, positionFrequency } from "@/lib/frequency-scale";
+import { createWindow, nextPowerOfTwo } from "@/lib/stft";
+import { DbRange, WindowFunction } from "@/lib/types";
+import type { SpectrogramParams } from "@/lib/spectrogram-worker";
+
+const log = (func: string, msg: string) => {
+  console.log(`[SpectrogramDetailOverlay] ${func}: ${msg}`);
+};
+
+// Wait for zooming to settle before recomputing
+const DEBOUNCE_MS = 250;
+// Never go below this hop length, however far the user zooms in
+const MIN_HOP_LENGTH = 16;
+// Extra audio computed on each side of the window so small pans stay covered
+const MARGIN_FRACTION = 0.25;
+// Largest FFT used to resolve a narrow frequency band
+const MAX_DETAIL_N_FFT = 16384;
+
+interface SpectrogramDetailOverlayProps {
+  samples: Float32Array;
+  sampleRate: number;
+  params: SpectrogramParams;
+  frequencyScale: FrequencyScaleParams;
+  displayLut: DisplayLut;
+  range: DbRange;
+  transparent: boolean;
+  threshold: number;
+  winLength?: number;
+}
+
+interface Detail {
+  url: string;
+  startTime: number;
+  endTime: number;
+  // Vertical extent as positions in the base image
+  bottom: number;
+  top: number;
+}
+
+/**
+ * How many dB louder the same audio reads in a pass with `detail` settings than in one with
+ * `base` settings. Power per bin grows with the window energy (the sum of w²), and mel
+ * bands also sum more bins as the FFT gets longer.
+ */
+function windowGainDb(
+  base: { n_fft: number; win_length: number },
+  detail: { n_fft: number; win_length: number },
+  windowFunction: WindowFunction,
+  scale: FrequencyScaleParams["scale"],
+  pad: number,
+): number {
+  const energy = (winLength: number) => createWindow(windowFunction, winLength).reduce((sum, w) => sum + w * w, 0);
+  const fftSize = (settings: { n_fft: number; win_length: number }) => Math.max(settings.n_fft, settings.win_length) + Math.max(0, pad);
+  const windowGain = energy(Math.min(detail.win_length, Math.max(detail.n_fft, detail.win_length)))
+    / energy(Math.min(base.win_length, Math.max(base.n_fft, base.win_length)));
+  const binGain = scale === "mel" ? fftSize(detail) / fftSize(base) : 1;
+  return 10 * Math.log10(windowGain * binGain);
+}
+
+/**
+ * Recomputes the visible window once the user zooms in past `threshold` seconds, and
+ * draws it over the base spectrogram: with a smaller hop length for more time detail,
+ * and across just the visible band with a longer FFT when the frequency axis is zoomed.
+ */
+function SpectrogramDetailOverlay(props: SpectrogramDetailOverlayProps) {
+  const { samples, sampleRate, params, frequencyScale, displayLut, range, transparent, threshold, winLength } = props;
+  const { startTime, endTime, zoomedDuration, freqMin, freqMax, isFrequencyZoomed } = useZoom();
+  const groupRef = useRef<SVGGElement>(null);
+  const [pixelWidth, setPixelWidth] = useState(0);
+  const [detail, setDetail] = useState<Detail | null>(null);
+
+  useLayoutEffect(() => {
+    const svg = groupRef.current?.ownerSVGElement;
+    if (!svg) return;
+    setPixelWidth(svg.clientWidth);
+    const observer = new ResizeObserver(() => setPixelWidth(svg.clientWidth));
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
+
+  // Aim for one frame per screen pixel
+  const detailHop = pixelWidth > 0
+    ? Math.max(MIN_HOP_LENGTH, Math.floor((zoomedDuration * sampleRate) / pixelWidth))
+    : params.hop_length;
+  const active = zoomedDuration < threshold && (detailHop < params.hop_length || isFrequencyZoomed);
+  // Only the visible band, with the FFT lengthened by as much as the band is narrower
+  const bandMin = isFrequencyZoomed ? Math.max(frequencyScale.f_min, freqMin) : frequencyScale.f_min;
+  const bandMax = isFrequencyZoomed ? Math.min(frequencyScale.f_max, freqMax) : frequencyScale.f_max;
+  const bandFactor = Math.max(1, (frequencyScale.f_max - frequencyScale.f_min) / Math.max(bandMax - bandMin, 1e-6));
+  const detailNfft = Math.min(MAX_DETAIL_N_FFT, Math.max(params.n_fft, nextPowerOfTwo(Math.ceil(params.n_fft * bandFactor))));
+
+  useEffect(() => {
+    if (!active) {
+      setDetail(null);
+      return;
+    }
+
+    // Aborting drops the job from the pool, or terminates its worker if it already started
+    const controller = new AbortController();
+    const margin = zoomedDuration * MARGIN_FRACTION;
+    const windowStart = Math.max(0, startTime - margin);
+    const windowEnd = Math.min(samples.length / sampleRate, endTime + margin);
+
+    const timer = setTimeout(async () => {
+      const startSample = Math.floor(windowStart * sampleRate);
+      const endSample = Math.ceil(windowEnd * sampleRate);
+      const hop = Math.min(detailHop, params.hop_length);
+      // A longer window is what actually resolves the band more finely
+      const detailWin = Math.min(winLength ?? Math.round(params.win_length * detailNfft / params.n_fft), detailNfft);
+      const detailParams = { ...params, hop_length: hop, win_length: detailWin, n_fft: detailNfft, f_min: bandMin, f_max: bandMax };
+
+      log("recompute", `Window ${windowStart.toFixed(3)}s-${windowEnd.toFixed(3)}s, ${bandMin.toFixed(0)}-${bandMax.toFixed(0)} Hz with hop ${hop} and n_fft ${detailNfft}`);
+      try {
+        const matrix = await getWorkerPool().run({
+          samples: samples.slice(startSample, endSample),
+          sampleRate,
+          params: detailParams,
+        }, controller.signal);
+        if (!matrix || matrix.frames === 0) return;
+
+        // Colour against the base range shifted by the gain of the longer window, so the
+        // detail blends with the tiles around it
+        const gain = windowGainDb(params, detailParams, params.window ?? "hann", frequencyScale.scale, frequencyScale.pad);
+        const detailRange = { min: range.min + gain, max: range.max + gain };
+        const url = await imageDataToObjectURL(colorizeSpectrogram(matrix, displayLut, detailRange, transparent));
+        if (controller.signal.aborted) {
+          URL.revokeObjectURL(url);
+          return;
+        }
+        // The detail rows span their own band; place it where that band sits in the base image
+        const detailFrequency = positionFrequency({ ...frequencyScale, ...detailParams });
+        const basePosition = frequencyPosition(frequencyScale);
+        setDetail({
+          url,
+          // Frames are centred on multiples of the hop, so each covers half a hop either side
+          startTime: startSample / sampleRate - hop / (2 * sampleRate),
+          endTime: startSample / sampleRate + (matrix.frames - 0.5) * hop / sampleRate,
+          bottom: basePosition(detailFrequency(0)),
+          top: basePosition(detailFrequency(1)),
+        });
+      } catch (error) {
+        if (!controller.signal.aborted) log("recompute", `Error computing detail: ${error}`);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [active, startTime, endTime, detailHop, bandMin, bandMax, detailNfft, samples, sampleRate, params, frequencyScale, displayLut, range, transparent, winLength]);
+
+  // Release the previous detail image once it has been replaced
+  useEffect(() => {
+    if (!detail) return;
+    return () => URL.revokeObjectURL(detail.url);
+  }, [detail]);
+
+  return (
+    <g ref={groupRef} pointerEvents="none">
+      {detail && (
+        <image
+          x={detail.startTime}
+          width={detail.endTime - detail.startTime}
+          y={(1 - detail.top) * 100}
+          height={(detail.top - detail.bottom) * 100}
+          href={detail.url}
+          preserveAspectRatio="none"
+        />
+      )}
+    </g>
+  );
+}
+
+export default SpectrogramDetailOverlay;
@@ -0,0 +1,132 @@
+import { useRef, useState, DragEvent, ChangeEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { FileAudio, Upload } from "lucide-react";
+import SpectrogramPlayer, { SpectrogramPlayerProps } from "@/lib/SpectrogramPlayer";
+import { AudioSource } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+export interface SpectrogramDropzoneProps extends Omit<SpectrogramPlayerProps, "src"> {
+  // Shown until the user picks a file
+  initialSrc?: AudioSource;
+  // Number of recently opened files to keep
+  maxRecent?: number;
+  // Passed to the file picker
+  accept?: string;
+  onFileChange?: (file: File) => void;
+}
+
+function isMediaFile(file: File) {
+  return file.type.startsWith("audio/") || file.type.startsWith("video/");
+}
+
+function isSameFile(a: File, b: File) {
+  return a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+}
+
+/**
+ * SpectrogramPlayer that opens local audio files dropped on it or picked from disk.
+ * Recent files stay in memory, so switching back to one reuses its cached spectrogram.
+ * The zoom resets through ZoomProvider whenever the source changes.
+ */
+function SpectrogramDropzone(props: SpectrogramDropzoneProps) {
+  const {
+    initialSrc = undefined,
+    maxRecent = 5,
+    accept = "audio/*,video/*",
+    onFileChange = undefined,
+    ...playerProps
+  } = props;
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [recentFiles, setRecentFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const openFile = (newFile: File) => {
+    if (!isMediaFile(newFile)) {
+      console.warn(`[SpectrogramDropzone] Ignoring ${newFile.name}: not an audio file (${newFile.type || "unknown type"})`);
+      return;
+    }
+    // Keep the File object that is already open, so its cache entries are reused
+    const existing = recentFiles.find((recent) => isSameFile(recent, newFile)) ?? newFile;
+    setFile(existing);
+    setRecentFiles((recent) => [existing, ...recent.filter((other) => other !== existing)].slice(0, maxRecent));
+    onFileChange?.(existing);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: DragEvent<HTMLDivElement>) => {
+    // Ignore leaving into a child element
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const dropped = Array.from(event.dataTransfer.files).find(isMediaFile);
+    if (dropped) {
+      openFile(dropped);
+    }
+  };
+
+  const handlePick = (event: ChangeEvent<HTMLInputElement>) => {
+    const picked = event.target.files?.[0];
+    if (picked) {
+      openFile(picked);
+    }
+    // Allow picking the same file again
+    event.target.value = "";
+  };
+
+  const src = file ?? initialSrc;
+
+  return (
+    <div
+      className={cn(
+        "relative w-full flex flex-col gap-2 rounded-md border-2 border-dashed border-transparent",
+        isDragging && "border-primary bg-primary/5",
+      )}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <input ref={inputRef} type="file" accept={accept} className="hidden" onChange={handlePick} />
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+          <Upload className="w-4 h-4" />
+          Open audio
+        </Button>
+        {recentFiles.map((recent) => (
+          <Button
+            key={`${recent.name}-${recent.size}-${recent.lastModified}`}
+            variant={recent === file ? "secondary" : "ghost"}
+            size="sm"
+            title={recent.name}
+            onClick={() => openFile(recent)}
+          >
+            <FileAudio className="w-4 h-4" />
+            <span className="max-w-40 truncate">{recent.name}</span>
+          </Button>
+        ))}
+      </div>
+      {src !== undefined ? (
+        <SpectrogramPlayer {...playerProps} src={src} />
+      ) : (
+        <div
+          className="flex w-full items-center justify-center text-sm text-gray-500"
+          style={{ height: playerProps.specHeight ?? 200 }}
+        >
+          Drop an audio file here or open one
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SpectrogramDropzone;
@@ -0,0 +1,94 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useZoom } from "@/lib/ZoomProvider";
+import { FrequencyScaleParams, formatFrequency, frequencyTicks, positionFrequency } from "@/lib/frequency-scale";
+
+interface SpectrogramFrequencyAxisProps {
+  params: FrequencyScaleParams;
+  height: number;
+}
+
+// Roughly two lines of text-xs between labels
+const MIN_TICK_SPACING = 24;
+// Zoom factor per pixel of wheel delta
+const WHEEL_ZOOM_SPEED = 0.002;
+
+/**
+ * Frequency labels for the visible band. Scrolling over the axis zooms the band around
+ * the pointer, dragging pans it and double-clicking shows the whole range again.
+ */
+function SpectrogramFrequencyAxis(props: SpectrogramFrequencyAxisProps) {
+  const { params, height } = props;
+  const { frequencyView, zoomFrequencyAt, panFrequency, resetFrequencyZoom } = useZoom();
+  const axisRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<number | null>(null);
+
+  const ticks = useMemo(
+    () => frequencyTicks(params, height, MIN_TICK_SPACING, frequencyView),
+    [params, height, frequencyView],
+  );
+
+  // Latest state for the native wheel listener
+  const wheelRef = useRef({ params, frequencyView, zoomFrequencyAt });
+  wheelRef.current = { params, frequencyView, zoomFrequencyAt };
+
+  useEffect(() => {
+    const axis = axisRef.current;
+    if (!axis) return;
+
+    // Attached natively, since React's wheel listeners are passive and can't stop the page scrolling
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { params, frequencyView, zoomFrequencyAt } = wheelRef.current;
+      const { top, height } = axis.getBoundingClientRect();
+      const fraction = 1 - (e.clientY - top) / height;
+      const anchor = frequencyView.bottom + fraction * (frequencyView.top - frequencyView.bottom);
+      zoomFrequencyAt(positionFrequency(params)(anchor), Math.exp(e.deltaY * WHEEL_ZOOM_SPEED));
+    };
+
+    axis.addEventListener("wheel", onWheel, { passive: false });
+    return () => axis.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = e.clientY;
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current === null) return;
+    // The band follows the pointer, so dragging down reveals higher frequencies
+    const delta = ((e.clientY - dragRef.current) / height) * (frequencyView.top - frequencyView.bottom);
+    dragRef.current = e.clientY;
+    panFrequency(delta);
+  };
+
+  const onPointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      ref={axisRef}
+      className="relative w-14 shrink-0 cursor-ns-resize select-none text-xs text-neutral-600 dark:text-neutral-400"
+      style={{ height, touchAction: "none" }}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      onDoubleClick={resetFrequencyZoom}
+    >
+      {ticks.map(({ value, position }) => (
+        <div
+          key={value}
+          className="absolute right-0 flex -translate-y-1/2 items-center gap-1 whitespace-nowrap"
+          style={{ top: `${(1 - position) * 100}%` }}
+        >
+          {formatFrequency(value)}
+          <span className="h-px w-1 bg-current" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default SpectrogramFrequencyAxis;
@@ -1,22 +1,31 @@
-import { Children, useEffect, useMemo } from "react";
-import createColorMap from "colormap";
+import { Children, useEffect, useMemo, useRef } from "react";
 import SpectrogramViewer from "@/lib/SpectrogramViewer";
 import SpectrogramNavigator from "@/lib/SpectrogramNavigator";
 import SpectrogramContent from "@/lib/SpectrogramContent";
 import ZoomProvider from "@/lib/ZoomProvider";
 import SpectrogramAnnotations from "@/lib/SpectogramAnnotations";
+import SpectrogramColorbar from "@/lib/SpectrogramColorbar";
+import SpectrogramFrequencyAxis from "@/lib/SpectrogramFrequencyAxis";
+import SpectrogramTimeline from "@/lib/SpectrogramTimeline";
+import SpectrogramDetailOverlay from "@/lib/SpectrogramDetailOverlay";
+import SpectrogramSelection from "@/lib/SpectrogramSelection";
 import { Annotations } from "@/lib/Annotation";
 import { usePlayback } from "@/lib/PlaybackProvider";
-import { useSuspenseQuery } from "@tanstack/react-query";
-import { Colormap } from "@/lib/types";
-import { createWorkerFactory, useWorker } from '@shopify/react-web-worker';
+import { selectChannels } from "@/lib/utils";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChannelMode, Colormap, CustomColormap, SpectrogramScale, WindowFunction, DbLimit, SpectrogramMatrix, TimeSelection } from "@/lib/types";
+import { buildColorLut, buildDisplayLut, resolveRange } from "@/lib/colorize";
+import { SpectrogramTileSource } from "@/lib/tiles";
+import { getWorkerPool } from "@/lib/worker-pool";
+import { useCacheOptions } from "@/lib/CacheProvider";
+import { spectrogramQueryKey } from "@/lib/cache-key";
+import type { FrameTrim } from "./spectrogram-worker";
 // Performance logging function
 const log = (func: string, msg: string) => {
   console.log(`[SpectrogramGraphics] ${func}: ${msg}`);
 };
 // Only chunk if audio is large
 const SEGMENT_DURATION = 10; // 10 seconds threshold
-const MAX_CONCURRENT = Math.min(4, navigator.hardwareConcurrency || 4); // Adjust based on hardware capabilities
 interface SpectrogramGraphicsProps {
   spectrogramData?: number[][];
   n_fft?: number;
@@ -26,50 +35,166 @@ interface SpectrogramGraphicsProps {
   f_max?: number;
   n_mels?: number;
   top_db?: number;
+  scale?: SpectrogramScale;
+  windowFunction?: WindowFunction;
+  center?: boolean;
+  pad?: number;
+  dbMin?: DbLimit;
+  dbMax?: DbLimit;
+  channelMode?: ChannelMode;
+  adaptive?: boolean;
+  adaptiveThreshold?: number;
+  adaptiveWinLength?: number;
   annotations?: Annotations[];
   navigator: boolean;
   startTimeInitial?: number;
   endTimeInitial?: number;
   specHeight: number;
   navHeight?: number;
-  colormap: Colormap;
+  colormap: Colormap | CustomColormap;
+  gamma?: number;
+  contrast?: number;
+  brightness?: number;
   transparent: boolean;
   playheadColor?: string;
   playheadWidth?: number;
+  colorbar?: boolean;
+  frequencyAxis?: boolean;
+  timeline?: boolean;
+  onSelectionChange?: (selection: TimeSelection | null) => void;
 }
 
-const createWorker = createWorkerFactory(() => import('./spectrogram-worker'));
 
+interface SpectrogramLane {
+  label: string;
+  matrix: SpectrogramMatrix;
+  // Frames the lane will have once every chunk is done
+  totalFrames: number;
+}
 
-// Helper function to convert blob to dataURL
-function blobToDataURL(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
+// Lanes computed so far, published while the full spectrogram is still being computed
+interface SpectrogramProgress {
+  lanes: SpectrogramLane[];
+  // Fraction of chunks done, between 0 and 1
+  progress: number;
 }
 
-// Check if OffscreenCanvas is supported
-const isOffscreenCanvasSupported = typeof OffscreenCanvas !== 'undefined';
+interface ChunkPlan {
+  start: number;
+  end: number;
+  trim: FrameTrim;
+}
 
-// Convert ImageData to dataURL using an in-memory canvas or OffscreenCanvas
-async function imageDataToDataURL(imageData: ImageData): Promise<string> {
-  // Fallback to regular canvas
-  const canvas = document.createElement('canvas');
-  canvas.width = imageData.width;
-  canvas.height = imageData.height;
-  const ctx = canvas.getContext('2d');
+/**
+ * Split the audio into SEGMENT_DURATION chunks that overlap by half an STFT frame on
+ * each side, and work out which frames of each chunk belong to it. Stitching the
+ * trimmed chunks gives the same frames as a single pass over the whole signal.
+ */
+function planChunks(numSamples: number, sampleRate: number, params: { n_fft: number; win_length: number; hop_length: number; center: boolean }): ChunkPlan[] {
+  const { hop_length, center } = params;
+  const frameLength = Math.max(params.n_fft, params.win_length);
+  // Chunk boundaries and overlaps are whole hops so frame centres line up across chunks
+  const chunkSize = Math.max(1, Math.floor((SEGMENT_DURATION * sampleRate) / hop_length)) * hop_length;
+  const halfFrame = Math.ceil(frameLength / 2 / hop_length) * hop_length;
+  const leftOverlap = center ? halfFrame : 0;
+  const rightOverlap = center ? halfFrame : Math.ceil(frameLength / hop_length) * hop_length;
+
+  const chunks: ChunkPlan[] = [];
+  for (let start = 0; start < numSamples; start += chunkSize) {
+    const end = Math.min(start + chunkSize, numSamples);
+    const isLast = end >= numSamples;
+    const paddedStart = Math.max(0, start - leftOverlap);
+    const paddedEnd = Math.min(numSamples, end + rightOverlap);
+    chunks.push({
+      start: paddedStart,
+      end: paddedEnd,
+      trim: {
+        start: (start - paddedStart) / hop_length,
+        // The last chunk keeps its trailing frames, as a single pass would
+        count: isLast ? Number.MAX_SAFE_INTEGER : chunkSize / hop_length,
+      },
+    });
+  }
+  return chunks;
+}
 
-  if (!ctx) {
-    throw new Error("Failed to get canvas context");
+/**
+ * Number of frames a single STFT pass over the signal produces
+ */
+function expectedFrames(numSamples: number, params: { n_fft: number; win_length: number; hop_length: number; center: boolean }): number {
+  const frameLength = Math.max(params.n_fft, params.win_length);
+  return params.center
+    ? 1 + Math.floor(numSamples / params.hop_length)
+    : Math.max(0, 1 + Math.floor((numSamples - frameLength) / params.hop_length));
+}
+
+/**
+ * Joins trimmed chunk matrices into one preallocated matrix, so the frames computed so
+ * far can be drawn without copying them again for every finished chunk. Every chunk is
+ * clipped to top_db below the loudest chunk so the seams share one dB range.
+ */
+class MatrixAccumulator {
+  frames = 0;
+  private data = new Float32Array(0);
+  private bins = 0;
+  private min = Infinity;
+  private max = -Infinity;
+
+  constructor(private capacity: number, private top_db: number) {}
+
+  append(matrix: SpectrogramMatrix) {
+    if (this.bins === 0) {
+      this.bins = matrix.bins;
+      this.data = new Float32Array(Math.max(this.capacity, matrix.frames) * matrix.bins);
+    }
+    const needed = (this.frames + matrix.frames) * this.bins;
+    if (needed > this.data.length) {
+      // Earlier snapshots keep the old buffer, so grow into a new one
+      const grown = new Float32Array(needed);
+      grown.set(this.data.subarray(0, this.frames * this.bins));
+      this.data = grown;
+    }
+    this.data.set(matrix.data, this.frames * this.bins);
+    this.frames += matrix.frames;
+    this.min = Math.min(this.min, matrix.min);
+    this.max = Math.max(this.max, matrix.max);
   }
 
-  ctx.putImageData(imageData, 0, 0);
-  return canvas.toDataURL();
+  /**
+   * The frames appended so far. Later appends only write past the end of it.
+   */
+  snapshot(): SpectrogramMatrix {
+    return {
+      data: this.data.subarray(0, this.frames * this.bins),
+      frames: this.frames,
+      bins: this.bins,
+      min: Math.max(this.min, this.max - this.top_db),
+      max: this.max,
+    };
+  }
 }
 
+/**
+ * Matrix of a precomputed spectrogram given as one row of dB values per frequency bin,
+ * lowest bin first, with one value per frame
+ */
+function matrixFromRows(rows: number[][]): SpectrogramMatrix {
+  const bins = rows.length;
+  const frames = bins > 0 ? rows[0].length : 0;
+  const data = new Float32Array(frames * bins);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let b = 0; b < bins; b++) {
+    const row = rows[b];
+    for (let f = 0; f < frames; f++) {
+      const value = row[f];
+      data[f * bins + b] = value;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+  }
+  return { data, frames, bins, min, max };
+}
 
 function SpectrogramGraphics(props: SpectrogramGraphicsProps) {
   const {
@@ -81,6 +206,16 @@ function SpectrogramGraphics(props: SpectrogramGraphicsProps) {
     f_max = 8000.0,
     n_mels = 128,
     top_db = 80,
+    scale = "mel",
+    windowFunction = "hann",
+    center = true,
+    pad = 0,
+    dbMin = "auto",
+    dbMax = "auto",
+    channelMode = "mix",
+    adaptive = false,
+    adaptiveThreshold = 5,
+    adaptiveWinLength = undefined,
     annotations = [],
     navigator = false,
     startTimeInitial = undefined,
@@ -88,255 +223,311 @@ function SpectrogramGraphics(props: SpectrogramGraphicsProps) {
     specHeight = 200,
     navHeight = 50,
     colormap = "viridis",
+    gamma = 1,
+    contrast = 1,
+    brightness = 0,
     transparent = false,
     playheadColor = "red",
     playheadWidth = 0.005,
+    colorbar = false,
+    frequencyAxis = false,
+    timeline = false,
+    onSelectionChange = undefined,
   } = props;
 
-  const { audioSamples, sampleRate, audioSrc } = usePlayback();
+  const { audioSamples, sampleRate, audioKey } = usePlayback();
   const hasAudioData = !!audioSamples && audioSamples.length > 0;
-  const queryKey = useMemo(() => `spectrogram-${audioSrc}-${n_fft}-${win_length}-${audioSamples?.length ?? 0}-${hop_length}-${f_min}-${f_max}-${n_mels}-${top_db}-${colormap}`, [audioSrc, n_fft, win_length, audioSamples?.length, hop_length, f_min, f_max, n_mels, top_db, colormap]);
-
-  const worker = useWorker(createWorker);
+  const numSamples = Array.isArray(audioSamples) ? audioSamples[0]?.length ?? 0 : audioSamples?.length ?? 0;
+
+  const queryClient = useQueryClient();
+  const cacheOptions = useCacheOptions();
+
+  // Prepare parameters object for worker
+  const params = useMemo(() => ({
+    n_fft,
+    win_length,
+    hop_length,
+    f_min,
+    f_max,
+    n_mels,
+    top_db,
+    scale,
+    window: windowFunction,
+    center,
+    pad,
+  }), [n_fft, win_length, hop_length, f_min, f_max, n_mels, top_db, scale, windowFunction, center, pad]);
+
+  // Row layout of the image, for the frequency axis and frequency zoom
+  const frequencyScale = useMemo(
+    () => ({ scale, sampleRate, n_fft, win_length, pad, f_min, f_max, n_mels }),
+    [scale, sampleRate, n_fft, win_length, pad, f_min, f_max, n_mels],
+  );
 
+  const queryKey = useMemo(
+    () => spectrogramQueryKey(audioKey, { sampleRate, numSamples, channelMode, params }),
+    [audioKey, sampleRate, numSamples, channelMode, params],
+  );
 
+  // Signals to draw, one per lane; shared by the base query and the zoomed-in detail overlay
+  const channelLanes = useMemo(() => selectChannels(audioSamples, channelMode), [audioSamples, channelMode]);
+
+  // Precomputed values replace the STFT; the audio is still used for playback
+  const providedLanes = useMemo<SpectrogramLane[] | null>(() => {
+    if (!spectrogramData) return null;
+    const matrix = matrixFromRows(spectrogramData);
+    return [{ label: "", matrix, totalFrames: matrix.frames }];
+  }, [spectrogramData]);
+
+  // Partial results, written by the query below as chunks finish
+  const { data: partial } = useQuery<SpectrogramProgress | null>({
+    queryKey: [...queryKey, "progress"],
+    queryFn: () => null,
+    enabled: false,
+    meta: { persist: false },
+  });
 
-  const { data: processedData, isLoading } = useSuspenseQuery({
-    queryKey: [queryKey],
-    queryFn: async () => {
+  // Not a suspense query: playback and the partial spectrogram are usable while this runs
+  const { data: completed, error } = useQuery<SpectrogramLane[]>({
+    queryKey,
+    enabled: !providedLanes,
+    ...cacheOptions,
+    // A failed job fails the same way again, so show the error instead of recomputing
+    retry: false,
+    // React Query aborts the signal when the key changes or the player unmounts,
+    // which cancels every queued and running job of this query
+    queryFn: async ({ signal }): Promise<SpectrogramLane[]> => {
       // Skip processing if no audio data
       if (!audioSamples || audioSamples.length === 0) {
-        return null;
+        return [];
       }
 
-      let monoAudioSamples: Float32Array;
-      // if audioSamples is stereo, we want to process the mean of the two channels
-      if (Array.isArray(audioSamples) && audioSamples.length === 2) {
-        // For stereo, convert to mono by averaging the channels
-        const leftChannel = audioSamples[0];
-        const rightChannel = audioSamples[1];
-        const length = leftChannel.length;
-
-        monoAudioSamples = new Float32Array(length);
-        // mean
-        for (let i = 0; i < length; i++) {
-          monoAudioSamples[i] = (leftChannel[i] + rightChannel[i]) / 2;
-        }
-      } else {
-        // If it's already mono, just use as is
-        monoAudioSamples = audioSamples as Float32Array;
-      }
+      const pool = getWorkerPool();
 
-      log("queryFn", "Starting spectrogram processing");
-
-      // Prepare parameters object for worker
-      const params = {
-        n_fft,
-        win_length,
-        hop_length,
-        f_min,
-        f_max,
-        n_mels,
-        top_db,
-        colormap,
-        transparent
+      const publish = (lanesSoFar: SpectrogramLane[], progress: number) => {
+        if (signal.aborted) return;
+        queryClient.setQueryData<SpectrogramProgress | null>([...queryKey, "progress"], { lanes: lanesSoFar, progress });
       };
 
-      // Determine if we need chunking
-      const samplesPerSecond = sampleRate;
-      const shouldChunk = monoAudioSamples.length > SEGMENT_DURATION * samplesPerSecond;
-
-      if (!shouldChunk) {
-        // Process entire audio sample at once for small files
-        log("queryFn", "Processing audio in a single worker");
-        try {
-          // Create a copy of the audioSamples to prevent transfer issues
-          const samplesCopy = new Float32Array(monoAudioSamples);
-
-          const result = await worker.processSpectrogram(
-            undefined,
-            samplesCopy,
-            sampleRate,
-            params,
-
-          );
-
-          if (!result?.imageData) {
-            return null;
-          }
-          // convert from ArrayBuffer to ImageData
-
-          // Convert image data to dataURL
-          const dataURL = await imageDataToDataURL(result.imageData);
-          return { dataURL };
-        } catch (error) {
-          log("queryFn", `Error processing audio: ${error}`);
-          return null;
+      const computeLane = async (
+        monoAudioSamples: Float32Array,
+        onPartial: (matrix: SpectrogramMatrix, done: number, total: number) => void,
+      ): Promise<SpectrogramMatrix | null> => {
+        // Determine if we need chunking
+        const samplesPerSecond = sampleRate;
+        const shouldChunk = monoAudioSamples.length > SEGMENT_DURATION * samplesPerSecond;
+
+        if (!shouldChunk) {
+          // Process entire audio sample at once for small files
+          log("queryFn", "Processing audio in a single worker");
+          // The buffer is transferred to the worker, so hand over a copy
+          return pool.run({ samples: monoAudioSamples.slice(), sampleRate, params }, signal);
         }
-      }
-
-      // For large files, process in chunks
-      log("queryFn", "Audio file is large, processing in chunks");
-      const chunkSize = Math.floor(SEGMENT_DURATION * samplesPerSecond);
-      const chunks = [];
-
-      for (let i = 0; i < monoAudioSamples.length; i += chunkSize) {
-        chunks.push(monoAudioSamples.slice(i, Math.min(i + chunkSize, monoAudioSamples.length)));
-      }
-
-      log("queryFn", `Split audio into ${chunks.length} chunks`);
-
-      const chunkResults = [];
-
-      for (let i = 0; i < chunks.length; i += MAX_CONCURRENT) {
-        const batch = chunks.slice(i, i + MAX_CONCURRENT);
-        const batchPromises = batch.map((chunk, idx) => {
-          log("queryFn", `Processing chunk ${i + idx + 1}/${chunks.length}`);
-
-          // Create a copy to prevent transfer issues with reused data
-          const chunkCopy = new Float32Array(chunk);
 
-          return worker.processSpectrogram(
-            undefined,
-            chunkCopy,
-            sampleRate,
-            params
-          );
-        });
+        // For large files, process in chunks
+        log("queryFn", "Audio file is large, processing in chunks");
+        const chunks = planChunks(monoAudioSamples.length, sampleRate, params);
 
-        const batchResults = await Promise.all(batchPromises);
-        chunkResults.push(...batchResults.filter(Boolean));
-      }
+        log("queryFn", `Split audio into ${chunks.length} chunks`);
 
-      if (chunkResults.length === 0) {
-        log("queryFn", "No chunks were successfully processed");
-        return null;
-      }
+        const accumulator = new MatrixAccumulator(expectedFrames(monoAudioSamples.length, params), top_db);
 
-      // Calculate dimensions of the final stitched image
-      const totalWidth = chunkResults.reduce((sum, result) => sum + (result?.width || 0), 0);
-      if (!chunkResults[0]?.height) {
-        log("queryFn", "No height found in chunk results");
-        return null;
-      }
-      const height = chunkResults[0].height;
-
-      log("queryFn", `Stitching ${chunkResults.length} images with total width ${totalWidth}`);
-
-      // Use OffscreenCanvas for stitching if available
-      if (isOffscreenCanvasSupported) {
+        // Every chunk is queued at once and the pool hands them out as workers free up.
+        // Chunks finish out of order, so each one waits until those before it are appended
+        // and the accumulated frames are always a prefix of the lane.
+        const finished: (SpectrogramMatrix | null | undefined)[] = new Array(chunks.length);
+        let appended = 0;
+        let done = 0;
+        // One failed chunk fails the lane, so the chunks still queued are cancelled with it
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
         try {
-          // Create offscreen canvas for stitching
-          const offscreen = new OffscreenCanvas(totalWidth, height);
-          const offCtx = offscreen.getContext('2d');
-
-          if (!offCtx) {
-            throw new Error("Failed to get offscreen canvas context for stitching");
-          }
-
-          // Create temporary canvases for each chunk result
-          let xOffset = 0;
-          for (const result of chunkResults) {
-            if (!result) {
-              log("queryFn", "Skipping null result");
-              continue;
+          await Promise.all(chunks.map(async (chunk, index) => {
+            // slice() copies, so the chunk owns its buffer and can be transferred
+            finished[index] = await pool.run({
+              samples: () => {
+                log("queryFn", `Processing chunk ${index + 1}/${chunks.length}`);
+                return monoAudioSamples.slice(chunk.start, chunk.end);
+              },
+              sampleRate,
+              params,
+              trim: chunk.trim,
+            }, controller.signal);
+            done++;
+
+            const before = appended;
+            while (appended < chunks.length && finished[appended] !== undefined) {
+              const result = finished[appended];
+              if (result) accumulator.append(result);
+              finished[appended] = undefined;
+              appended++;
             }
-            const tempCanvas = new OffscreenCanvas(result.width, result.height);
-            const tempCtx = tempCanvas.getContext('2d');
-
-            if (!tempCtx) {
-              throw new Error("Failed to get temp canvas context");
+            if (appended > before && accumulator.frames > 0) {
+              onPartial(accumulator.snapshot(), done, chunks.length);
             }
+          }));
+        } catch (error) {
+          controller.abort(error);
+          throw error;
+        } finally {
+          signal.removeEventListener("abort", onAbort);
+        }
 
-            // Ensure we have a 2D context
-            if (!(tempCtx instanceof OffscreenCanvasRenderingContext2D)) {
-              throw new Error("Failed to get 2D context for temp canvas");
-            }
+        if (accumulator.frames === 0) {
+          log("queryFn", "No chunks were successfully processed");
+          return null;
+        }
 
-            tempCtx.putImageData(result.imageData, 0, 0);
+        log("queryFn", `Joined ${chunks.length} chunks`);
+        return accumulator.snapshot();
+      };
 
-            // Ensure we have a 2D context for the main canvas
-            if (!(offCtx instanceof OffscreenCanvasRenderingContext2D)) {
-              throw new Error("Failed to get 2D context for offscreen canvas");
-            }
+      log("queryFn", `Starting spectrogram processing for ${channelLanes.length} lane(s)`);
 
-            offCtx.drawImage(tempCanvas, xOffset, 0);
-            xOffset += result.width;
-          }
-
-          // Convert final stitched image to dataURL
-          // Check if convertToBlob is available
-          if (!('convertToBlob' in offscreen)) {
-            throw new Error("convertToBlob not supported in this environment");
-          }
-          // fix is of type unknown
-          const convertToBlob = offscreen.convertToBlob as (options?: { type?: string }) => Promise<Blob>;
-          const blob = await convertToBlob({ type: 'image/png' });
-          const stitchedDataURL = await blobToDataURL(blob);
-
-          log("queryFn", "Successfully stitched spectrogram chunks using OffscreenCanvas");
-          return { dataURL: stitchedDataURL };
-        } catch (error) {
-          log("queryFn", `Error using OffscreenCanvas for stitching: ${error}`);
-          // Fall back to regular canvas stitching
+      const results: SpectrogramLane[] = [];
+      for (const [index, lane] of channelLanes.entries()) {
+        const totalFrames = expectedFrames(lane.samples.length, params);
+        const matrix = await computeLane(lane.samples, (partialMatrix, done, total) => {
+          publish(
+            [...results, { label: lane.label, matrix: partialMatrix, totalFrames }],
+            (index + done / total) / channelLanes.length,
+          );
+        });
+        if (matrix && matrix.frames > 0) {
+          results.push({ label: lane.label, matrix, totalFrames: matrix.frames });
         }
       }
+      queryClient.removeQueries({ queryKey: [...queryKey, "progress"], exact: true });
+      return results;
+    },
+  });
 
-      // Fallback: stitch using regular canvas
-      const canvas = document.createElement('canvas');
-      canvas.width = totalWidth;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
+  const lanes = useMemo(() => providedLanes ?? completed ?? partial?.lanes ?? [], [providedLanes, completed, partial]);
+  const progress = providedLanes || completed ? 1 : partial?.progress ?? 0;
 
-      if (!ctx) {
-        throw new Error("Failed to get canvas context");
+  // Colour step: a lookup-table pass over the cached matrices, so changing colormap,
+  // tone, transparency or the dB range never reruns the STFT
+  const displayLut = useMemo(
+    () => buildDisplayLut(buildColorLut(colormap), { gamma, contrast, brightness }),
+    [colormap, gamma, contrast, brightness],
+  );
+  const range = useMemo(
+    () => (lanes.length > 0 ? resolveRange(lanes.map((lane) => lane.matrix), dbMin, dbMax, top_db) : null),
+    [lanes, dbMin, dbMax, top_db],
+  );
+  // Tiles are coloured lazily from the cached matrices as they scroll into view. While
+  // chunks are still arriving, a lane with unchanged colours keeps its source and only
+  // hands it the longer matrix, so finished tiles are not coloured again for every batch.
+  const previousSourcesRef = useRef<{ sources: SpectrogramTileSource[]; colors: unknown[] }>({ sources: [], colors: [] });
+  const tileSources = useMemo(() => {
+    if (!range) return [];
+    const colors = [range.min, range.max, displayLut, transparent];
+    const previous = previousSourcesRef.current;
+    const sameColors = colors.every((value, i) => value === previous.colors[i]);
+    const sources = lanes.map(({ matrix, totalFrames }, index) => {
+      const source = previous.sources[index];
+      if (sameColors && source?.canExtend(matrix, totalFrames)) {
+        source.extend(matrix);
+        return source;
       }
-
-      // Draw each image onto the canvas
-      let xOffset = 0;
-      for (const result of chunkResults) {
-        // Create a temp canvas for each chunk
-        const tempCanvas = document.createElement('canvas');
-        if (!result) {
-          log("queryFn", "Skipping null result");
-          continue;
-        }
-        tempCanvas.width = result.width;
-        tempCanvas.height = result.height;
-        const tempCtx = tempCanvas.getContext('2d');
-
-        if (!tempCtx) {
-          throw new Error("Failed to get temp canvas context");
-        }
-
-        tempCtx.putImageData(result.imageData, 0, 0);
-        ctx.drawImage(tempCanvas, xOffset, 0);
-        xOffset += result.width;
+      return new SpectrogramTileSource(matrix, displayLut, range, transparent, totalFrames);
+    });
+    previousSourcesRef.current = { sources, colors };
+    return sources;
+  }, [lanes, range, displayLut, transparent]);
+
+  // A replaced source is handed to the lane's new source, which shows its tiles until it has
+  // rendered the same slots and releases them as it does. The rest go once they are off screen.
+  const committedSourcesRef = useRef<SpectrogramTileSource[]>([]);
+  useEffect(() => {
+    const previous = committedSourcesRef.current;
+    previous.forEach((source, index) => {
+      if (tileSources.includes(source)) return;
+      const successor = tileSources[index];
+      if (successor && !previous.includes(successor)) {
+        successor.succeed(source);
+      } else {
+        source.dispose();
       }
+    });
+    committedSourcesRef.current = tileSources;
+  }, [tileSources]);
 
-      // Get the final stitched dataURL
-      const stitchedDataURL = canvas.toDataURL();
+  useEffect(() => () => committedSourcesRef.current.forEach((source) => source.dispose()), []);
 
-      log("queryFn", "Successfully stitched spectrogram chunks using regular Canvas");
+  if (!hasAudioData) {
+    return null;
+  }
 
-      return { dataURL: stitchedDataURL };
-    },
-  });
+  if (error) {
+    return (
+      <p className="text-sm text-red-500" style={{ height: specHeight }}>
+        Failed to compute the spectrogram: {error.message}
+      </p>
+    );
+  }
 
-  if ((!hasAudioData) || isLoading || !processedData?.dataURL) {
-    return null;
+  if (tileSources.length === 0) {
+    // Nothing to draw until the first chunks are done
+    return completed ? null : (
+      <p className="text-sm text-gray-500 animate-pulse" style={{ height: specHeight }}>Computing Spectrogram</p>
+    );
   }
 
   return (
-    <ZoomProvider startTimeInitial={startTimeInitial} endTimeInitial={endTimeInitial}>
+    <ZoomProvider startTimeInitial={startTimeInitial} endTimeInitial={endTimeInitial} frequencyScale={frequencyScale} onSelectionChange={onSelectionChange}>
       <>
-        <SpectrogramViewer height={specHeight}>
-          <SpectrogramContent
-            dataURL={processedData.dataURL}
-            playheadColor={playheadColor}
-            playheadWidth={playheadWidth}
-          />
-        </SpectrogramViewer>
+        {/* Stacked channel lanes share the ZoomProvider, so time and zoom stay in sync */}
+        {tileSources.map((source, index) => (
+          <div key={index} className="flex w-full">
+            {frequencyAxis && (
+              <SpectrogramFrequencyAxis params={frequencyScale} height={specHeight} />
+            )}
+            <div className="relative flex-1 min-w-0">
+              <SpectrogramViewer height={specHeight}>
+                <SpectrogramContent
+                  source={source}
+                  playheadColor={playheadColor}
+                  playheadWidth={playheadWidth}
+                  overlay={adaptive && !providedLanes && range && channelLanes[index] ? (
+                    <SpectrogramDetailOverlay
+                      samples={channelLanes[index].samples}
+                      sampleRate={sampleRate}
+                      params={params}
+                      frequencyScale={frequencyScale}
+                      displayLut={displayLut}
+                      range={range}
+                      transparent={transparent}
+                      threshold={adaptiveThreshold}
+                      winLength={adaptiveWinLength}
+                    />
+                  ) : undefined}
+                />
+              </SpectrogramViewer>
+              {/* Every lane shows the selection; the first carries its buttons */}
+              <SpectrogramSelection height={specHeight} actions={index === 0} />
+              {lanes[index]?.label && (
+                <div className="pointer-events-none absolute left-1 top-1 select-none text-xs font-mono text-white">
+                  {lanes[index].label}
+                </div>
+              )}
+              {index === 0 && progress < 1 && (
+                <div className="pointer-events-none absolute right-1 top-1 select-none text-xs font-mono text-white animate-pulse">
+                  Computing {Math.round(progress * 100)}%
+                </div>
+              )}
+              {/* Under the last lane, so it lines up with the spectrogram between the side axes */}
+              {timeline && index === tileSources.length - 1 && <SpectrogramTimeline />}
+            </div>
+            {colorbar && range && (
+              <SpectrogramColorbar
+                colors={displayLut.colors}
+                range={range}
+                height={specHeight}
+              />
+            )}
+          </div>
+        ))}
         {Children.toArray(
           annotations?.map(({ title, data, height, strokeWidth }) => (
             <SpectrogramAnnotations
@@ -348,10 +539,11 @@ function SpectrogramGraphics(props: SpectrogramGraphicsProps) {
           ))
         )}
         {navigator && (
-          <SpectrogramNavigator height={navHeight}>
+          <SpectrogramNavigator height={navHeight} timeline={timeline}>
             <SpectrogramContent
               sampleRate={sampleRate}
-              dataURL={processedData.dataURL}
+              source={tileSources[0]}
+              overview
               playheadColor={playheadColor}
               playheadWidth={playheadWidth}
             />
@@ -4,16 +4,18 @@ import { useTheme } from "@/lib/ThemeProvider";
 import { useZoom } from "@/lib/ZoomProvider";
 import { ZoomIn, ZoomOut } from "lucide-react";
 import { cn } from "@/lib/utils";
+import SpectrogramTimeline from "@/lib/SpectrogramTimeline";
 
 interface SpectrogramNavigatorProps {
   children: JSX.Element;
   height: number;
+  timeline?: boolean;
 }
 
 const MINIMUM_ZOOM_WINDOW_DURATION = 0.01;
 
 function SpectrogramNavigator(props: SpectrogramNavigatorProps) {
-  const { children, height } = props;
+  const { children, height, timeline = false } = props;
   const { duration, setCurrentTime } = usePlayback();
   const {
     startTime,
@@ -86,7 +88,7 @@ function SpectrogramNavigator(props: SpectrogramNavigatorProps) {
 
   return (
     <div
-      className="relative flex w-full"
+      className="relative flex w-full flex-col"
 
     >
       {duration ? (
@@ -129,6 +131,7 @@ function SpectrogramNavigator(props: SpectrogramNavigatorProps) {
       ) : (
         placeholder_svg
       )}
+      {timeline && <SpectrogramTimeline overview />}
 
       {/* Controls container with buttons in a column */}
       <div className={cn(
@@ -3,29 +3,22 @@ import PlaybackProvider from "./PlaybackProvider";
 import ThemeProvider from "./ThemeProvider";
 import "./index.css";
 import { Annotations } from "./Annotation";
-import { QueryClient } from "@tanstack/react-query";
-import { Suspense } from "react";
-import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client'
-import { createSyncStoragePersister } from '@tanstack/query-sync-storage-persister'
-import { Loader2 } from "lucide-react";
-import { Colormap, PlayheadMode, Backend } from "@/lib/types";
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      staleTime: 1000 * 60 * 60 * 24, // 24 hours
-    },
-  },
-})
+import CacheProvider from "./CacheProvider";
+import LiveSpectrogram from "./LiveSpectrogram";
+import { Suspense, useEffect, useState } from "react";
+import { Loader2, Mic } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AudioSource, RawAudio, CacheMode, ChannelMode, Colormap, CustomColormap, PlayheadMode, Backend, SpectrogramScale, WindowFunction, DbLimit, TimeSelection } from "@/lib/types";
 
-const persister = createSyncStoragePersister({
-  storage: window.localStorage,
 
-})
 
 
-
-interface SpectrogramPlayerProps {
-  src: string;
+export interface SpectrogramPlayerProps {
+  // Required unless `stream` or `mediaElement` is given
+  src?: AudioSource;
+  stream?: MediaStream;
+  mediaElement?: HTMLMediaElement;
+  liveWindow?: number;
   spectrogramData?: number[][];
   sampleRate?: number;
   n_fft?: number;
@@ -35,6 +28,16 @@ interface SpectrogramPlayerProps {
   f_max?: number;
   n_mels?: number;
   top_db?: number;
+  scale?: SpectrogramScale;
+  window?: WindowFunction;
+  center?: boolean;
+  pad?: number;
+  dbMin?: DbLimit;
+  dbMax?: DbLimit;
+  channelMode?: ChannelMode;
+  adaptive?: boolean;
+  adaptiveThreshold?: number;
+  adaptiveWinLength?: number;
   annotations?: Annotations[];
   navigator?: boolean;
   settings?: boolean;
@@ -45,12 +48,23 @@ interface SpectrogramPlayerProps {
   playheadModeInitial?: PlayheadMode;
   specHeight?: number;
   navHeight?: number;
-  colormap?: Colormap;
+  colormap?: Colormap | CustomColormap;
+  gamma?: number;
+  contrast?: number;
+  brightness?: number;
   transparent?: boolean;
   dark?: boolean;
   playheadColor?: string;
   playheadWidth?: number;
   backend?: Backend;
+  preservePitch?: boolean;
+  colorbar?: boolean;
+  frequencyAxis?: boolean;
+  timeline?: boolean;
+  onSelectionChange?: (selection: TimeSelection | null) => void;
+  cache?: CacheMode;
+  cacheKey?: string;
+  cacheBudget?: number;
 }
 function Loading() {
   return (
@@ -68,9 +82,37 @@ function Loading() {
   )
 }
 
+/**
+ * Source an external media element is playing, followed as the host page changes it.
+ * currentSrc is only set once the element starts loading, so it is read again on loadstart.
+ */
+function useMediaElementSrc(mediaElement?: HTMLMediaElement): string {
+  const [mediaSrc, setMediaSrc] = useState("");
+
+  useEffect(() => {
+    if (!mediaElement) {
+      setMediaSrc("");
+      return;
+    }
+    const update = () => setMediaSrc(mediaElement.currentSrc || mediaElement.src);
+    update();
+    mediaElement.addEventListener("loadstart", update);
+    mediaElement.addEventListener("emptied", update);
+    return () => {
+      mediaElement.removeEventListener("loadstart", update);
+      mediaElement.removeEventListener("emptied", update);
+    };
+  }, [mediaElement]);
+
+  return mediaSrc;
+}
+
 const SpectrogramPlayer = (props: SpectrogramPlayerProps) => {
   const {
-    src,
+    src = undefined,
+    stream = undefined,
+    mediaElement = undefined,
+    liveWindow = 10,
     spectrogramData = undefined,
     sampleRate = 16000,
     n_fft = 1024,
@@ -80,6 +122,17 @@ const SpectrogramPlayer = (props: SpectrogramPlayerProps) => {
     f_max = sampleRate / 2,
     n_mels = 128,
     top_db = 80,
+    scale = "mel",
+    // Renamed so it doesn't shadow the global window
+    window: windowFunction = "hann",
+    center = true,
+    pad = 0,
+    dbMin = "auto",
+    dbMax = "auto",
+    channelMode = "mix",
+    adaptive = false,
+    adaptiveThreshold = 5,
+    adaptiveWinLength = undefined,
     annotations = [],
     navigator = false,
     settings = false,
@@ -91,23 +144,71 @@ const SpectrogramPlayer = (props: SpectrogramPlayerProps) => {
     specHeight = 200,
     navHeight = 50,
     colormap = "viridis",
+    gamma = 1,
+    contrast = 1,
+    brightness = 0,
     transparent = false,
     playheadColor = "white",
     playheadWidth = 0.005,
     backend = "html5",
+    preservePitch = true,
+    colorbar = false,
+    frequencyAxis = false,
+    timeline = false,
+    onSelectionChange = undefined,
+    cache = "localStorage",
+    cacheKey = undefined,
+    cacheBudget = 500 * 1024 * 1024,
   } = props;
 
+  // Audio captured from `stream`, reviewed like any other source once the capture stops
+  const [capturedAudio, setCapturedAudio] = useState<RawAudio | null>(null);
 
+  // A new stream starts a new capture
+  useEffect(() => {
+    setCapturedAudio(null);
+  }, [stream]);
 
-
+  const isLive = stream !== undefined && capturedAudio === null;
+  // An external element's own source is used for the spectrogram unless `src` is given
+  const mediaElementSrc = useMediaElementSrc(mediaElement);
+  const audioSource = capturedAudio ?? src ?? (mediaElementSrc || undefined);
 
   return (
     <div className="w-full h-full flex flex-col items-center justify-center">
-      <PersistQueryClientProvider client={queryClient} persistOptions={{ persister }}>
+      <CacheProvider cache={cache} cacheBudget={cacheBudget}>
         <ThemeProvider defaultTheme="dark" storageKey="vite-ui-theme">
+          {stream !== undefined && isLive && (
+            <LiveSpectrogram
+              stream={stream}
+              sampleRate={sampleRate}
+              n_fft={n_fft}
+              win_length={win_length}
+              hop_length={hop_length}
+              f_min={f_min}
+              f_max={f_max}
+              n_mels={n_mels}
+              top_db={top_db}
+              scale={scale}
+              windowFunction={windowFunction}
+              pad={pad}
+              dbMin={dbMin}
+              dbMax={dbMax}
+              colormap={colormap}
+              gamma={gamma}
+              contrast={contrast}
+              brightness={brightness}
+              transparent={transparent}
+              specHeight={specHeight}
+              liveWindow={liveWindow}
+              onStop={setCapturedAudio}
+            />
+          )}
+          {!isLive && audioSource !== undefined && (
           <Suspense fallback={<Loading />}>
             <PlaybackProvider
-              src={src}
+              src={audioSource}
+              cacheKey={cacheKey}
               settings={settings}
               sampleRate={sampleRate}
               currentTimeInitial={startTimeInitial}
@@ -115,6 +216,8 @@ const SpectrogramPlayer = (props: SpectrogramPlayerProps) => {
               playheadModeInitial={playheadModeInitial}
               controls={controls}
               backend={backend}
+              preservePitch={preservePitch}
+              mediaElement={capturedAudio ? undefined : mediaElement}
             >
               <SpectrogramGraphics
                 spectrogramData={spectrogramData}
@@ -125,6 +228,16 @@ const SpectrogramPlayer = (props: SpectrogramPlayerProps) => {
                 f_max={f_max}
                 n_mels={n_mels}
                 top_db={top_db}
+                scale={scale}
+                windowFunction={windowFunction}
+                center={center}
+                pad={pad}
+                dbMin={dbMin}
+                dbMax={dbMax}
+                channelMode={channelMode}
+                adaptive={adaptive}
+                adaptiveThreshold={adaptiveThreshold}
+                adaptiveWinLength={adaptiveWinLength}
                 annotations={annotations}
                 navigator={navigator}
                 startTimeInitial={startTimeInitial}
@@ -132,14 +245,28 @@ const SpectrogramPlayer = (props: SpectrogramPlayerProps) => {
                 navHeight={navHeight}
                 specHeight={specHeight}
                 colormap={colormap}
+                gamma={gamma}
+                contrast={contrast}
+                brightness={brightness}
                 transparent={transparent}
                 playheadColor={playheadColor}
                 playheadWidth={playheadWidth}
+                colorbar={colorbar}
+                frequencyAxis={frequencyAxis}
+                timeline={timeline}
+                onSelectionChange={onSelectionChange}
               />
             </PlaybackProvider>
           </Suspense>
+          )}
+          {stream !== undefined && capturedAudio !== null && (
+            <Button variant="ghost" size="sm" onClick={() => setCapturedAudio(null)}>
+              <Mic className="w-4 h-4" />
+              Back to live
+            </Button>
+          )}
         </ThemeProvider>
-      </PersistQueryClientProvider>
+      </CacheProvider>
     </div>
   );
 
@@ -0,0 +1,116 @@
+import { useRef } from "react";
+import { useTheme } from "@/lib/ThemeProvider";
+import { useZoom } from "@/lib/ZoomProvider";
+import { Play, Repeat, X, ZoomIn } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SpectrogramSelectionProps {
+  height: number;
+  // Show the play, loop, zoom and clear buttons (once, on the first lane)
+  actions?: boolean;
+}
+
+/**
+ * Draws the selection over the spectrogram, with handles to drag either edge and
+ * buttons acting on the selected range. Selections are made by dragging on the viewer.
+ */
+function SpectrogramSelection(props: SpectrogramSelectionProps) {
+  const { height, actions = false } = props;
+  const {
+    startTime,
+    endTime,
+    selection,
+    setSelection,
+    clearSelection,
+    playSelection,
+    loopSelection,
+    zoomToSelection,
+  } = useZoom();
+  const { theme } = useTheme();
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // Edge being dragged; the other edge stays where it is
+  const resizeRef = useRef<"start" | "end" | null>(null);
+
+  if (!selection) {
+    return null;
+  }
+
+  const span = endTime - startTime;
+  const left = ((selection.startTime - startTime) / span) * 100;
+  const right = ((selection.endTime - startTime) / span) * 100;
+
+  const onHandleDown = (edge: "start" | "end") => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    resizeRef.current = edge;
+  };
+
+  const onHandleMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const edge = resizeRef.current;
+    const overlay = overlayRef.current;
+    if (!edge || !overlay) return;
+    const { left, width } = overlay.getBoundingClientRect();
+    const time = startTime + (span * (e.clientX - left)) / width;
+    const fixed = edge === "start" ? selection.endTime : selection.startTime;
+    // Dragging an edge past the other one swaps which edge is being dragged
+    resizeRef.current = time > fixed ? "end" : "start";
+    setSelection({ startTime: fixed, endTime: time });
+  };
+
+  const onHandleUp = () => {
+    resizeRef.current = null;
+  };
+
+  const buttonClassName = cn(
+    "flex h-6 w-6 items-center justify-center rounded-md bg-transparent border-none",
+    "cursor-pointer transition-all duration-200 p-0",
+    theme === 'dark' ? "text-white" : "text-black",
+  );
+
+  const handle = (edge: "start" | "end", position: number) => (
+    <div
+      className="pointer-events-auto absolute top-0 h-full w-2 -translate-x-1/2 cursor-ew-resize"
+      style={{ left: `${position}%`, touchAction: "none" }}
+      onPointerDown={onHandleDown(edge)}
+      onPointerMove={onHandleMove}
+      onPointerUp={onHandleUp}
+      onPointerCancel={onHandleUp}
+    />
+  );
+
+  return (
+    <div
+      ref={overlayRef}
+      className="pointer-events-none absolute left-0 top-0 w-full overflow-hidden"
+      style={{ height }}
+    >
+      <div
+        className="absolute top-0 h-full border-x border-white"
+        style={{ left: `${left}%`, width: `${right - left}%`, background: "rgba(255, 255, 255, 0.2)" }}
+      />
+      {handle("start", left)}
+      {handle("end", right)}
+      {actions && (
+        <div
+          className="pointer-events-auto absolute bottom-1 flex gap-1"
+          // Keep the buttons inside the view when the selection runs off one side
+          style={left < 50 ? { left: `max(${left}%, 0%)` } : { right: `max(${100 - right}%, 0%)` }}
+        >
+          <button onClick={playSelection} title="Play selection" aria-label="Play selection" className={buttonClassName}>
+            <Play size={14} strokeWidth={2} />
+          </button>
+          <button onClick={loopSelection} title="Loop selection" aria-label="Loop selection" className={buttonClassName}>
+            <Repeat size={14} strokeWidth={2} />
+          </button>
+          <button onClick={zoomToSelection} title="Zoom to selection" aria-label="Zoom to selection" className={buttonClassName}>
+            <ZoomIn size={14} strokeWidth={2} />
+          </button>
+          <button onClick={clearSelection} title="Clear selection (Esc)" aria-label="Clear selection" className={buttonClassName}>
+            <X size={14} strokeWidth={2} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SpectrogramSelection;
@@ -0,0 +1,77 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { usePlayback } from "@/lib/PlaybackProvider";
+import { SpectrogramTileSource } from "@/lib/tiles";
+
+interface SpectrogramTilesProps {
+  source: SpectrogramTileSource;
+  startTime: number;
+  endTime: number;
+}
+
+function SpectrogramTiles(props: SpectrogramTilesProps) {
+  const { source, startTime, endTime } = props;
+  const { duration } = usePlayback();
+  const groupRef = useRef<SVGGElement>(null);
+  const [pixelWidth, setPixelWidth] = useState(0);
+  const [, setLoadedCount] = useState(0);
+
+  // Track the on-screen width of the parent svg to pick a pyramid level
+  useLayoutEffect(() => {
+    const svg = groupRef.current?.ownerSVGElement;
+    if (!svg) return;
+    setPixelWidth(svg.clientWidth);
+    const observer = new ResizeObserver(() => setPixelWidth(svg.clientWidth));
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
+
+  const secondsPerFrame = duration ? duration / source.frames : 0;
+  const startFrame = secondsPerFrame ? Math.max(0, Math.floor(startTime / secondsPerFrame)) : 0;
+  const endFrame = secondsPerFrame ? Math.min(source.frames, Math.ceil(endTime / secondsPerFrame)) : 0;
+  const level = source.levelFor((endFrame - startFrame) / Math.max(1, pixelWidth));
+  // The coarsest level is always drawn underneath so panning never shows gaps
+  const backdrop = source.tilesFor(source.maxLevel, 0, source.frames);
+  const visible = level === source.maxLevel ? [] : source.tilesFor(level, startFrame, endFrame);
+  const tileKeys = [...backdrop, ...visible].map((tile) => tile.key).join(",");
+
+  // Lazily render the tiles for the current window
+  useEffect(() => {
+    let cancelled = false;
+    for (const tile of [...backdrop, ...visible]) {
+      if (source.peek(tile)) continue;
+      source.getTile(tile).then(() => {
+        if (!cancelled) setLoadedCount((count) => count + 1);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [source, tileKeys]);
+
+  if (!duration) {
+    return <g ref={groupRef} />;
+  }
+
+  return (
+    <g ref={groupRef} pointerEvents="none">
+      {[...backdrop, ...visible].map((tile) => {
+        // Until a tile has rendered, its previous version stays on screen
+        const url = source.peek(tile);
+        const image = url ? { url, frameCount: tile.frameCount } : source.placeholder(tile);
+        return image ? (
+          <image
+            key={tile.slot}
+            x={tile.startFrame * secondsPerFrame}
+            width={image.frameCount * secondsPerFrame}
+            y={0}
+            height={100}
+            href={image.url}
+            preserveAspectRatio="none"
+          />
+        ) : null;
+      })}
+    </g>
+  );
+}
+
+export default SpectrogramTiles;
@@ -0,0 +1,103 @@
+import { useLayoutEffect, useMemo, useRef, useState } from "react";
+import { usePlayback } from "@/lib/PlaybackProvider";
+import { useZoom } from "@/lib/ZoomProvider";
+
+interface SpectrogramTimelineProps {
+  // Show the whole file (navigator) instead of the zoomed window
+  overview?: boolean;
+  height?: number;
+}
+
+// Labelled steps in seconds, each with the number of unlabelled subdivisions
+const STEPS: [number, number][] = [
+  [0.001, 5], [0.002, 2], [0.005, 5],
+  [0.01, 5], [0.02, 2], [0.05, 5],
+  [0.1, 5], [0.2, 2], [0.5, 5],
+  [1, 5], [2, 2], [5, 5], [10, 5], [15, 3], [30, 3],
+  [60, 4], [120, 2], [300, 5], [600, 5], [900, 3], [1800, 3], [3600, 4],
+];
+// Room for a label like "12:34.567"
+const MIN_LABEL_SPACING = 72;
+
+function formatTick(time: number, decimals: number, withMinutes: boolean): string {
+  if (!withMinutes) return `${time.toFixed(decimals)}s`;
+  const minutes = Math.floor(time / 60);
+  const seconds = (time - minutes * 60).toFixed(decimals).padStart(decimals > 0 ? decimals + 3 : 2, "0");
+  return `${minutes}:${seconds}`;
+}
+
+/**
+ * Time ruler whose tick spacing follows the zoom level, from milliseconds to minutes.
+ * Clicking it seeks to the time under the pointer.
+ */
+function SpectrogramTimeline(props: SpectrogramTimelineProps) {
+  const { overview = false, height = 20 } = props;
+  const { duration, setCurrentTime } = usePlayback();
+  const { startTime, endTime } = useZoom();
+  const rulerRef = useRef<HTMLDivElement>(null);
+  const [pixelWidth, setPixelWidth] = useState(0);
+
+  useLayoutEffect(() => {
+    const ruler = rulerRef.current;
+    if (!ruler) return;
+    setPixelWidth(ruler.clientWidth);
+    const observer = new ResizeObserver(() => setPixelWidth(ruler.clientWidth));
+    observer.observe(ruler);
+    return () => observer.disconnect();
+  }, []);
+
+  const rangeStart = overview ? 0 : startTime;
+  const rangeEnd = overview ? duration ?? 0 : endTime;
+  const span = rangeEnd - rangeStart;
+
+  const ticks = useMemo(() => {
+    if (!(span > 0) || pixelWidth === 0) return [];
+
+    const pixelsPerSecond = pixelWidth / span;
+    const [step, subdivisions] = STEPS.find(([step]) => step * pixelsPerSecond >= MIN_LABEL_SPACING) ?? STEPS[STEPS.length - 1];
+    const minorStep = step / subdivisions;
+    const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+    const withMinutes = rangeEnd >= 60;
+
+    const values = [];
+    for (let i = Math.ceil(rangeStart / minorStep); i * minorStep <= rangeEnd; i++) {
+      const time = i * minorStep;
+      const major = i % subdivisions === 0;
+      values.push({
+        time,
+        label: major ? formatTick(time, decimals, withMinutes) : null,
+      });
+    }
+    return values;
+  }, [rangeStart, rangeEnd, span, pixelWidth]);
+
+  const onClick = (e: React.MouseEvent<HTMLDivElement, MouseEvent>) => {
+    const ruler = rulerRef.current;
+    if (!ruler || !duration || !(span > 0)) return;
+    const { left, width } = ruler.getBoundingClientRect();
+    const newTime = rangeStart + (span * (e.clientX - left)) / width;
+    setCurrentTime(Math.min(Math.max(newTime, 0), duration));
+  };
+
+  return (
+    <div
+      ref={rulerRef}
+      className="relative w-full cursor-pointer select-none overflow-hidden text-xs text-neutral-600 dark:text-neutral-400"
+      style={{ height }}
+      onClick={onClick}
+    >
+      {ticks.map(({ time, label }) => (
+        <div
+          key={time}
+          className="absolute top-0 flex flex-col items-start"
+          style={{ left: `${((time - rangeStart) / span) * 100}%` }}
+        >
+          <span className="w-px bg-current" style={{ height: label ? 6 : 3 }} />
+          {label && <span className="-translate-x-1/2 whitespace-nowrap leading-none">{label}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default SpectrogramTimeline;
@@ -1,4 +1,4 @@
-import { useRef } from "react";
+import { useEffect, useRef } from "react";
 import { usePlayback } from "@/lib/PlaybackProvider";
 import { useZoom } from "@/lib/ZoomProvider";
 
@@ -7,19 +7,148 @@ interface SpectrogramViewerProps {
   height: number;
 }
 
+// Zoom factor per pixel of wheel delta; pinches report much smaller deltas than wheels
+const WHEEL_ZOOM_SPEED = 0.002;
+const PINCH_ZOOM_SPEED = 0.01;
+const LINE_HEIGHT = 16;
+// Pointer travel in pixels before a press becomes a selection drag instead of a click
+const DRAG_THRESHOLD = 4;
+
+// Wheel deltas in pixels, whatever unit the device reports them in
+function wheelDelta(e: WheelEvent, pageSize: number) {
+  const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? LINE_HEIGHT : e.deltaMode === WheelEvent.DOM_DELTA_PAGE ? pageSize : 1;
+  return { x: e.deltaX * scale, y: e.deltaY * scale };
+}
+
 function SpectrogramViewer(props: SpectrogramViewerProps) {
   const { children, height } = props;
   const { duration, setCurrentTime } = usePlayback();
   const svgRef = useRef<SVGSVGElement>(null);
-  const { startTime, endTime } = useZoom();
+  const { startTime, endTime, zoomAt, pan, frequencyView, setSelection } = useZoom();
+
+  // Latest zoom state for the native listeners, which are only attached once
+  const zoomRef = useRef({ startTime, endTime, zoomAt, pan });
+  zoomRef.current = { startTime, endTime, zoomAt, pan };
+  // Touch pointers on the spectrogram, for pinch zoom
+  const pointersRef = useRef(new Map<number, number>());
+  const pinchRef = useRef<{ distance: number; anchorTime: number } | null>(null);
+  // Press that may turn into a selection drag
+  const dragRef = useRef<{ pointerId: number; clientX: number; anchorTime: number; selecting: boolean } | null>(null);
+  // A click ending a pinch or a selection drag shouldn't seek
+  const gestureRef = useRef(false);
+
+  const timeAt = (clientX: number) => {
+    const { left, width } = svgRef.current!.getBoundingClientRect();
+    const { startTime, endTime } = zoomRef.current;
+    return startTime + ((endTime - startTime) * (clientX - left)) / width;
+  };
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    // Attached natively, since React's wheel listeners are passive and can't stop the page scrolling
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { startTime, endTime, zoomAt, pan } = zoomRef.current;
+      const width = svg.getBoundingClientRect().width;
+      const delta = wheelDelta(e, width);
+      const secondsPerPixel = (endTime - startTime) / width;
+
+      if (e.shiftKey) {
+        // Shift turns a vertical wheel into a horizontal one on some platforms but not others
+        pan((Math.abs(delta.x) > Math.abs(delta.y) ? delta.x : delta.y) * secondsPerPixel);
+      } else if (!e.ctrlKey && Math.abs(delta.x) > Math.abs(delta.y)) {
+        // Horizontal swipe
+        pan(delta.x * secondsPerPixel);
+      } else {
+        // Trackpad pinches arrive as wheel events with ctrlKey set
+        const speed = e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+        zoomAt(timeAt(e.clientX), Math.exp(delta.y * speed));
+      }
+    };
+
+    // Safari reports trackpad pinches as gesture events instead
+    let gestureScale = 1;
+    const onGestureStart = (e: Event) => {
+      e.preventDefault();
+      gestureScale = 1;
+    };
+    const onGestureChange = (e: Event) => {
+      e.preventDefault();
+      const { scale, clientX } = e as Event & { scale: number; clientX: number };
+      zoomRef.current.zoomAt(timeAt(clientX), gestureScale / scale);
+      gestureScale = scale;
+    };
+
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    svg.addEventListener("gesturestart", onGestureStart);
+    svg.addEventListener("gesturechange", onGestureChange);
+    return () => {
+      svg.removeEventListener("wheel", onWheel);
+      svg.removeEventListener("gesturestart", onGestureStart);
+      svg.removeEventListener("gesturechange", onGestureChange);
+    };
+  }, [duration]);
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (pointersRef.current.size === 0) {
+      gestureRef.current = false;
+    }
+    if (e.isPrimary && e.button === 0) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragRef.current = { pointerId: e.pointerId, clientX: e.clientX, anchorTime: timeAt(e.clientX), selecting: false };
+    }
+    if (e.pointerType !== "touch") return;
+    pointersRef.current.set(e.pointerId, e.clientX);
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      pinchRef.current = { distance: Math.abs(a - b), anchorTime: timeAt((a + b) / 2) };
+      gestureRef.current = true;
+      // A second finger makes it a pinch
+      dragRef.current = null;
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (drag && drag.pointerId === e.pointerId) {
+      if (!drag.selecting && Math.abs(e.clientX - drag.clientX) >= DRAG_THRESHOLD) {
+        drag.selecting = true;
+        gestureRef.current = true;
+      }
+      if (drag.selecting) {
+        setSelection({ startTime: drag.anchorTime, endTime: timeAt(e.clientX) });
+      }
+    }
+
+    if (!pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, e.clientX);
+    const pinch = pinchRef.current;
+    if (!pinch || pointersRef.current.size !== 2) return;
+
+    const [a, b] = [...pointersRef.current.values()];
+    const distance = Math.abs(a - b);
+    if (distance > 0 && pinch.distance > 0) {
+      zoomAt(pinch.anchorTime, pinch.distance / distance);
+      pinch.distance = distance;
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragRef.current?.pointerId === e.pointerId) {
+      dragRef.current = null;
+    }
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) {
+      pinchRef.current = null;
+    }
+  };
 
   const onClick = (e: React.MouseEvent<SVGSVGElement, MouseEvent>) => {
-    const boundingClientRect = svgRef.current?.getBoundingClientRect();
-    if (boundingClientRect && duration) {
-      const { left, right } = boundingClientRect;
-      let newTime =
-        startTime +
-        ((endTime - startTime) * (e.clientX - left)) / (right - left);
+    if (gestureRef.current) return;
+    if (svgRef.current && duration) {
+      let newTime = timeAt(e.clientX);
       if (newTime < 0) {
         newTime = 0;
       }
@@ -32,15 +161,24 @@ function SpectrogramViewer(props: SpectrogramViewerProps) {
 
   const placeholder_svg = <svg width="100%" height={height} />;
 
+  // The image is 100 units tall with high frequencies at the top; frequency zoom crops it
+  const viewTop = (1 - frequencyView.top) * 100;
+  const viewHeight = (frequencyView.top - frequencyView.bottom) * 100;
+
   return duration ? (
     <svg
       ref={svgRef}
       width="100%"
       height={height}
-      viewBox={`${startTime},0,${endTime - startTime},100`}
+      viewBox={`${startTime},${viewTop},${endTime - startTime},${viewHeight}`}
       cursor="pointer"
       preserveAspectRatio="none"
+      style={{ touchAction: "pan-y" }}
       onClick={onClick}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
     >
       {children}
     </svg>
@@ -1,4 +1,8 @@
 import { AudioEngine, AudioEngineStatus } from './AudioEngine';
+import type { StretchJobRequest, StretchJobResponse } from './stretch-worker';
+
+// Stretched copies kept at once; each one is as large as the audio divided by its rate
+const MAX_STRETCHED_RATES = 3;
 
 /**
  * WebAudioEngine - A wrapper class for WebAudio API operations
@@ -21,6 +25,15 @@ export class WebAudioEngine implements AudioEngine {
     private onEndedCallback: (() => void) | null = null;
     private onTimeUpdateCallback: ((currentTime: number) => void) | null = null;
     private timeUpdateInterval: number | null = null;
+    private preservePitch: boolean = false;
+    // Time-stretched copies of the audio by playback rate, played at rate 1. The latest few
+    // are kept, so going back to a recent rate doesn't stretch the whole file again.
+    private stretched = new Map<number, AudioBuffer>();
+    private stretchWorker: Worker | null = null;
+    private stretchJobId: number = 0;
+    private stretchPending: boolean = false;
+    // Audio seconds per second of the playing buffer (the rate when it is stretched)
+    private sourceTimeScale: number = 1;
 
     constructor(desiredSampleRate: number = 44100) {
         this.sampleRate = desiredSampleRate;
@@ -110,6 +123,10 @@ export class WebAudioEngine implements AudioEngine {
             }
 
             console.log(`[WebAudioEngine] Audio buffer created successfully. Duration: ${this.audioBuffer.duration}s, Channels: ${actualNumChannels}`);
+
+            // Any stretched copy belongs to the previous audio
+            this.stretched.clear();
+            this.updateStretch();
             return true;
         } catch (error) {
             console.error("[WebAudioEngine] Failed to setup WebAudio buffer:", error);
@@ -133,43 +150,179 @@ export class WebAudioEngine implements AudioEngine {
         }
 
         const elapsed = this.context.currentTime - this.startTime;
-        return this.pausedAt + (elapsed * this.playbackRate);
+        const position = this.pausedAt + (elapsed * this.playbackRate);
+
+        // The source node wraps around on its own, so fold the position back into the loop
+        const [loopStart, loopEnd] = this.getLoopRange();
+        if (this.loopMode && this.pausedAt < loopEnd && position >= loopEnd) {
+            return loopStart + ((position - loopStart) % (loopEnd - loopStart));
+        }
+        return position;
+    }
+
+    /**
+     * Loop range in seconds, where an empty range means the whole buffer
+     */
+    private getLoopRange(): [number, number] {
+        const duration = this.getDuration();
+        if (this.loopEnd > this.loopStart) {
+            return [Math.max(0, this.loopStart), Math.min(this.loopEnd, duration)];
+        }
+        return [0, duration];
+    }
+
+    /**
+     * Restart the position bookkeeping from the current position, for changes that
+     * would otherwise make the elapsed time ambiguous (rate or loop changes)
+     */
+    private rebase(): void {
+        if (!this.context || !this.isPlaying) return;
+        this.pausedAt = this.getCurrentTime();
+        this.startTime = this.context.currentTime;
     }
 
     /**
      * Set the playback rate
      */
     setPlaybackRate(rate: number): void {
+        this.rebase();
         this.playbackRate = rate;
+        console.log(`[WebAudioEngine] Set playback rate to ${rate}`);
+        this.updateStretch();
+    }
 
-        if (this.sourceNode) {
-            this.sourceNode.playbackRate.value = rate;
-            console.log(`[WebAudioEngine] Set playback rate to ${rate}`);
+    /**
+     * Keep the pitch when the playback rate changes, by playing a time-stretched copy of
+     * the audio. Until the copy for a new rate is ready, playback is resampled as before.
+     */
+    setPreservePitch(enabled: boolean): void {
+        this.preservePitch = enabled;
+        this.updateStretch();
+    }
+
+    /**
+     * Buffer to play at the current rate, with its time scale relative to the audio
+     */
+    private getPlaybackBuffer(): { buffer: AudioBuffer; timeScale: number } | null {
+        if (!this.audioBuffer) return null;
+        const stretched = this.preservePitch ? this.stretched.get(this.playbackRate) : undefined;
+        if (stretched) {
+            return { buffer: stretched, timeScale: this.playbackRate };
+        }
+        return { buffer: this.audioBuffer, timeScale: 1 };
+    }
+
+    /**
+     * Stretch the audio for the current rate if needed, then bring the source node in line
+     */
+    private updateStretch(): void {
+        if (this.preservePitch && this.playbackRate !== 1 && !this.stretched.has(this.playbackRate)) {
+            this.requestStretch(this.playbackRate);
+        }
+        this.syncSourceNode();
+    }
+
+    /**
+     * Switch the playing source node to the buffer and rate that match the current settings
+     */
+    private syncSourceNode(): void {
+        const playback = this.getPlaybackBuffer();
+        if (!this.sourceNode || !playback) return;
+
+        if (this.sourceNode.buffer !== playback.buffer) {
+            if (this.isPlaying) {
+                console.log(`[WebAudioEngine] Switching to the ${playback.timeScale === 1 ? "original" : "time-stretched"} buffer`);
+                this.play(this.getCurrentTime());
+            }
+            return;
+        }
+        this.sourceNode.playbackRate.value = playback.timeScale === 1 ? this.playbackRate : 1;
+    }
+
+    /**
+     * Time-stretch the audio in a worker. A newer request replaces one still running.
+     */
+    private requestStretch(rate: number): void {
+        const audioBuffer = this.audioBuffer;
+        if (!audioBuffer) return;
+
+        if (this.stretchWorker && this.stretchPending) {
+            this.stretchWorker.terminate();
+            this.stretchWorker = null;
+        }
+        if (!this.stretchWorker) {
+            this.stretchWorker = new Worker(new URL("./stretch-worker.ts", import.meta.url), { type: "module" });
         }
+
+        const id = ++this.stretchJobId;
+        this.stretchPending = true;
+        this.stretchWorker.onmessage = (e: MessageEvent<StretchJobResponse>) => {
+            const response = e.data;
+            if (response.id !== this.stretchJobId) return;
+            this.stretchPending = false;
+
+            if (response.type === 'error') {
+                console.error("[WebAudioEngine] Failed to time-stretch audio:", response.message);
+                return;
+            }
+            if (!this.context || this.audioBuffer !== audioBuffer) return;
+
+            const buffer = this.context.createBuffer(response.channels.length, response.channels[0].length, audioBuffer.sampleRate);
+            response.channels.forEach((channel, c) => buffer.copyToChannel(channel, c));
+            this.stretched.set(rate, buffer);
+            if (this.stretched.size > MAX_STRETCHED_RATES) {
+                this.stretched.delete(this.stretched.keys().next().value as number);
+            }
+            console.log(`[WebAudioEngine] Time-stretched audio ready for rate ${rate}`);
+            this.syncSourceNode();
+        };
+
+        console.log(`[WebAudioEngine] Time-stretching audio for rate ${rate}`);
+        const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, c) => audioBuffer.getChannelData(c).slice());
+        const request: StretchJobRequest = { id, channels, sampleRate: audioBuffer.sampleRate, rate };
+        this.stretchWorker.postMessage(request, channels.map((channel) => channel.buffer));
     }
 
     /**
-     * Configure looping behavior
-     * Note: Custom loop ranges are handled by the PlaybackProvider
+     * Configure looping behavior. The source node loops between `start` and `end`
+     * (the whole buffer when the range is empty), so loops are sample accurate and gapless.
      */
     setLoopMode(enabled: boolean, start: number = 0, end: number = 0): void {
+        this.rebase();
         this.loopMode = enabled;
         this.loopStart = start;
         this.loopEnd = end;
-        console.log("[WebAudioEngine] Loop mode set to", enabled ? "true" : "false");
-
+        console.log(`[WebAudioEngine] Loop mode set to ${enabled}${enabled ? ` (${start}s - ${end}s)` : ""}`);
 
         // Update source node if already playing
         if (this.sourceNode) {
-            this.sourceNode.loop = enabled;
+            this.applyLoop(this.sourceNode, this.sourceTimeScale);
+
+            // A node playing outside its loop only wraps once it reaches the loop end
+            const [loopStart, loopEnd] = this.getLoopRange();
+            const position = this.getCurrentTime();
+            if (enabled && (position < loopStart || position >= loopEnd)) {
+                this.play(loopStart);
+            }
         }
     }
 
+    /**
+     * Copy the loop settings onto a source node, converted to the time of its buffer
+     */
+    private applyLoop(node: AudioBufferSourceNode, timeScale: number): void {
+        const [loopStart, loopEnd] = this.getLoopRange();
+        node.loop = this.loopMode;
+        node.loopStart = loopStart / timeScale;
+        node.loopEnd = loopEnd / timeScale;
+    }
+
     /**
      * Start or resume playback
      */
     play(startFrom: number = this.pausedAt): boolean {
-        if (!this.context || !this.audioBuffer || !this.gainNode) {
+        const playback = this.getPlaybackBuffer();
+        if (!this.context || !this.audioBuffer || !this.gainNode || !playback) {
             console.log("[WebAudioEngine] Cannot play: missing required WebAudio components");
             return false;
         }
@@ -191,15 +344,18 @@ export class WebAudioEngine implements AudioEngine {
 
             // Create a new source node
             this.sourceNode = this.context.createBufferSource();
-            this.sourceNode.buffer = this.audioBuffer;
+            this.sourceNode.buffer = playback.buffer;
             this.sourceNode.connect(this.gainNode);
+            this.sourceTimeScale = playback.timeScale;
 
-            // Set playback rate
-            this.sourceNode.playbackRate.value = this.playbackRate;
+            // Set playback rate; a time-stretched buffer already plays at the rate
+            this.sourceNode.playbackRate.value = playback.timeScale === 1 ? this.playbackRate : 1;
             console.debug(`[WebAudioEngine] Set playback rate to ${this.playbackRate}`);
 
-            // Calculate offset from the current time
-            const offset = Math.max(0, startFrom);
+            // Calculate offset from the current time, starting inside the loop when looping
+            const [loopStart, loopEnd] = this.getLoopRange();
+            const outsideLoop = this.loopMode && (startFrom < loopStart || startFrom >= loopEnd);
+            const offset = outsideLoop ? loopStart : Math.max(0, startFrom);
             const audioDuration = this.audioBuffer.duration;
             console.log(`[WebAudioEngine] Start from offset: ${offset}s, startFrom: ${startFrom}s, audio duration: ${audioDuration}s`);
             // Safety check: don't try to start from beyond the end of the audio
@@ -215,16 +371,16 @@ export class WebAudioEngine implements AudioEngine {
             this.startTime = this.context.currentTime;
             console.debug(`[WebAudioEngine] Starting playback at context time ${this.startTime}, offset ${this.pausedAt}s, audio duration: ${audioDuration}s`);
 
-            // Apply basic loop setting (let PlaybackProvider handle custom ranges)
-            this.sourceNode.loop = this.loopMode;
+            // Loop inside the source node itself
+            this.applyLoop(this.sourceNode, playback.timeScale);
 
             console.log(`[WebAudioEngine] Starting playback from offset: ${this.pausedAt}s of ${audioDuration}s`);
 
             // Set playing state before starting
             this.isPlaying = true;
 
-            // Start playback from the offset
-            this.sourceNode.start(0, this.pausedAt);
+            // Start playback from the offset, in the time of the playing buffer
+            this.sourceNode.start(0, this.pausedAt / playback.timeScale);
             console.log(`[WebAudioEngine] Playback started successfully from ${this.pausedAt}s`);
 
             // Handle end of playback
@@ -234,9 +390,9 @@ export class WebAudioEngine implements AudioEngine {
                     console.log("[WebAudioEngine] Source node playback ended");
                     if (this.isPlaying) {
                         if (this.loopMode) {
-                            // If it's simple loop mode, just restart from the beginning
-                            console.log("[WebAudioEngine] Loop mode active, restarting from beginning");
-                            this.play(0);
+                            // A looping node never ends on its own, but restart the loop just in case
+                            console.log("[WebAudioEngine] Loop mode active, restarting from loop start");
+                            this.play(this.getLoopRange()[0]);
                         } else {
                             console.log("[WebAudioEngine] Playback complete, stopping");
                             // Reset position to beginning when playback ends naturally
@@ -273,11 +429,10 @@ export class WebAudioEngine implements AudioEngine {
         try {
             console.log("[WebAudioEngine] Pausing playback");
 
-            // Calculate where we paused before stopping the source
+            // Calculate where we paused before stopping the source, folded back into the loop
             if (this.sourceNode && this.context) {
-                const elapsed = this.context.currentTime - this.startTime;
-                this.pausedAt = this.pausedAt + (elapsed * this.playbackRate);
-                console.log(`[WebAudioEngine] Paused at position: ${this.pausedAt}s (elapsed: ${elapsed}s)`);
+                this.pausedAt = this.getCurrentTime();
+                console.log(`[WebAudioEngine] Paused at position: ${this.pausedAt}s`);
             }
 
             // Stop the current source node
@@ -362,6 +517,9 @@ export class WebAudioEngine implements AudioEngine {
     destroy(): void {
         this.stopTimeUpdateInterval();
         this.stopSourceNode();
+        this.stretchWorker?.terminate();
+        this.stretchWorker = null;
+        this.stretched.clear();
 
         if (this.context) {
             this.context.close();
@@ -3,10 +3,14 @@ import {
   useState,
   useEffect,
   useContext,
+  useRef,
+  useMemo,
   SetStateAction,
   Dispatch,
 } from "react";
 import { usePlayback } from "@/lib/PlaybackProvider";
+import { FrequencyScaleParams, frequencyPosition, positionFrequency } from "@/lib/frequency-scale";
+import { TimeSelection } from "@/lib/types";
 
 export type ZoomContextType = {
   startTime: number;
@@ -18,6 +22,32 @@ export type ZoomContextType = {
   setCenterTime: (centerTime: number) => void;
   zoomIn: () => void;
   zoomOut: () => void;
+  // Scale the view by `factor` (below 1 zooms in), keeping `anchorTime` at the same place on screen
+  zoomAt: (anchorTime: number, factor: number) => void;
+  // Move the view by `deltaTime` seconds
+  pan: (deltaTime: number) => void;
+  resetZoom: () => void;
+  // Visible frequency band in Hz
+  freqMin: number;
+  freqMax: number;
+  // The same band as positions in the spectrogram image, 0 at the bottom and 1 at the top
+  frequencyView: { bottom: number; top: number };
+  isFrequencyZoomed: boolean;
+  setFrequencyRange: (freqMin: number, freqMax: number) => void;
+  // Scale the band by `factor` (below 1 zooms in), keeping `anchorFrequency` in place
+  zoomFrequencyAt: (anchorFrequency: number, factor: number) => void;
+  // Move the band by `delta`, a fraction of the image height
+  panFrequency: (delta: number) => void;
+  resetFrequencyZoom: () => void;
+  // Time range dragged out on the spectrogram
+  selection: TimeSelection | null;
+  setSelection: (selection: TimeSelection | null) => void;
+  clearSelection: () => void;
+  // Play the selection once from its start
+  playSelection: () => void;
+  // Repeat the selection in loop mode
+  loopSelection: () => void;
+  zoomToSelection: () => void;
 };
 
 export const ZoomContext = createContext<ZoomContextType>({
@@ -30,6 +60,23 @@ export const ZoomContext = createContext<ZoomContextType>({
   setCenterTime: () => { },
   zoomIn: () => { },
   zoomOut: () => { },
+  zoomAt: () => { },
+  pan: () => { },
+  resetZoom: () => { },
+  freqMin: 0,
+  freqMax: 1,
+  frequencyView: { bottom: 0, top: 1 },
+  isFrequencyZoomed: false,
+  setFrequencyRange: () => { },
+  zoomFrequencyAt: () => { },
+  panFrequency: () => { },
+  resetFrequencyZoom: () => { },
+  selection: null,
+  setSelection: () => { },
+  clearSelection: () => { },
+  playSelection: () => { },
+  loopSelection: () => { },
+  zoomToSelection: () => { },
 });
 
 export function useZoom() {
@@ -40,25 +87,125 @@ export type ZoomProviderProps = {
   children: JSX.Element | JSX.Element[];
   startTimeInitial?: number;
   endTimeInitial?: number;
+  // Row layout of the spectrogram, for frequency zoom
+  frequencyScale?: FrequencyScaleParams;
+  onSelectionChange?: (selection: TimeSelection | null) => void;
 };
 
+// Shortest window continuous zoom can reach, in seconds
+const MINIMUM_ZOOM_DURATION = 0.01;
+// Narrowest frequency band, as a fraction of the image height
+const MINIMUM_FREQUENCY_SPAN = 0.01;
+// Whole image, for when no frequency scale is known
+const FULL_VIEW = { bottom: 0, top: 1 };
+
 function ZoomProvider(props: ZoomProviderProps) {
-  const { children, startTimeInitial, endTimeInitial } = props;
-  const { duration, currentTime, mode, pause, setCurrentTime } = usePlayback();
+  const { children, startTimeInitial, endTimeInitial, frequencyScale, onSelectionChange } = props;
+  const { duration, currentTime, mode, play, pause, isPlaying, setCurrentTime, audioSrc, setLoopRange, toggleLoopMode } = usePlayback();
   const [startTime, setStartTime] = useState(startTimeInitial ?? 0);
   const [endTime, setEndTime] = useState(endTimeInitial ?? duration ?? 1);
   const [previousTime, setPreviousTime] = useState(currentTime);
 
+  const resetZoom = () => {
+    if (duration === null) return;
+    setStartTime(startTimeInitial ?? 0);
+    setEndTime(endTimeInitial ?? duration);
+    setCurrentTime(startTimeInitial ?? 0);
+  };
+
+  // Start every new audio source from the initial view, even if its duration matches the last one
   useEffect(() => {
-    if (duration !== null) {
-      setStartTime(startTimeInitial ?? 0);
-      setEndTime(endTimeInitial ?? duration);
-      setCurrentTime(startTimeInitial ?? 0);
-    }
-  }, [duration, startTimeInitial, endTimeInitial]);
+    resetZoom();
+  }, [duration, startTimeInitial, endTimeInitial, audioSrc]);
 
   const zoomedDuration = endTime - startTime;
 
+  const [selection, setSelectionState] = useState<TimeSelection | null>(null);
+
+  const setSelection = (newSelection: TimeSelection | null) => {
+    let next = newSelection;
+    if (next && duration !== null) {
+      // Either edge can be dragged past the other
+      const start = Math.min(Math.max(Math.min(next.startTime, next.endTime), 0), duration);
+      const end = Math.min(Math.max(Math.max(next.startTime, next.endTime), 0), duration);
+      next = { startTime: start, endTime: end };
+    }
+    if (next?.startTime === selection?.startTime && next?.endTime === selection?.endTime) return;
+    setSelectionState(next);
+    onSelectionChange?.(next);
+  };
+
+  const clearSelection = () => setSelection(null);
+
+  // A selection belongs to the audio it was made on
+  useEffect(() => {
+    clearSelection();
+  }, [duration, audioSrc]);
+
+  // Loop mode repeats the selection, or the visible range when there is none
+  const loopStart = selection?.startTime ?? startTime;
+  const loopEnd = selection?.endTime ?? endTime;
+  useEffect(() => {
+    setLoopRange(loopStart, loopEnd);
+  }, [loopStart, loopEnd, setLoopRange]);
+
+  // End of a selection being played once, where playback pauses
+  const stopAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!isPlaying) stopAtRef.current = null;
+  }, [isPlaying]);
+
+  const playSelection = () => {
+    if (!selection) return;
+    stopAtRef.current = mode === "loop" ? null : selection.endTime;
+    setCurrentTime(selection.startTime);
+    play();
+  };
+
+  const loopSelection = () => {
+    if (!selection) return;
+    stopAtRef.current = null;
+    if (mode !== "loop") toggleLoopMode();
+    if (currentTime < selection.startTime || currentTime >= selection.endTime) {
+      setCurrentTime(selection.startTime);
+    }
+    play();
+  };
+
+  // Wheel and pinch events can arrive several times per render, so continuous zoom and
+  // pan build on the latest view rather than the one from the last render
+  const viewRef = useRef({ startTime, endTime });
+  viewRef.current = { startTime, endTime };
+
+  const setView = (newStartTime: number, newDuration: number) => {
+    if (duration === null) return;
+    const clampedDuration = Math.min(Math.max(newDuration, MINIMUM_ZOOM_DURATION), duration);
+    const clampedStartTime = Math.min(Math.max(newStartTime, 0), duration - clampedDuration);
+    viewRef.current = { startTime: clampedStartTime, endTime: clampedStartTime + clampedDuration };
+    setStartTime(viewRef.current.startTime);
+    setEndTime(viewRef.current.endTime);
+  };
+
+  const zoomAt = (anchorTime: number, factor: number) => {
+    const { startTime, endTime } = viewRef.current;
+    const span = endTime - startTime;
+    if (!(span > 0) || duration === null) return;
+    const newDuration = Math.min(Math.max(span * factor, MINIMUM_ZOOM_DURATION), duration);
+    const anchorPosition = (anchorTime - startTime) / span;
+    setView(anchorTime - anchorPosition * newDuration, newDuration);
+  };
+
+  const pan = (deltaTime: number) => {
+    const { startTime, endTime } = viewRef.current;
+    setView(startTime + deltaTime, endTime - startTime);
+  };
+
+  const zoomToSelection = () => {
+    if (!selection) return;
+    setView(selection.startTime, selection.endTime - selection.startTime);
+  };
+
   const setCenterTime = (centerTime: number) => {
     if (duration === null) return;
 
@@ -92,6 +239,15 @@ function ZoomProvider(props: ZoomProviderProps) {
     // Keep track of time changes for next update
     setPreviousTime(currentTime);
 
+    // The end of a selection played once
+    if (stopAtRef.current !== null && currentTime >= stopAtRef.current) {
+      const stopAt = stopAtRef.current;
+      stopAtRef.current = null;
+      pause();
+      setCurrentTime(stopAt);
+      return;
+    }
+
     if (mode === "stop") {
       if (currentTime >= endTime && currentTime <= endTime + 0.1) {
         pause();
@@ -108,9 +264,10 @@ function ZoomProvider(props: ZoomProviderProps) {
         setEndTime(newEndTime);
       }
     } else if (mode === "loop") {
-      if (currentTime >= endTime || currentTime < startTime) {
-        // This is a more direct approach - if we're outside bounds, jump immediately
-        setCurrentTime(startTime);
+      // The audio engine wraps around at the loop end itself; only bring back positions
+      // that were moved outside the loop, e.g. by seeking
+      if (currentTime > loopEnd || currentTime < loopStart) {
+        setCurrentTime(loopStart);
       }
     } else if (mode === "page") {
       if (currentTime >= endTime && currentTime <= endTime + 0.1) {
@@ -265,6 +422,9 @@ function ZoomProvider(props: ZoomProviderProps) {
         zoomOut();
         event.preventDefault();
       }
+      else if (event.key === 'Escape' && selection) {
+        clearSelection();
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -272,10 +432,57 @@ function ZoomProvider(props: ZoomProviderProps) {
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [duration, startTime, endTime, zoomedDuration, currentTime]); // Include currentTime in dependencies
+  }, [duration, startTime, endTime, zoomedDuration, currentTime, selection]); // Include currentTime in dependencies
 
   const isZoomed = duration !== null && (startTime > 0 || endTime < duration);
 
+  // Frequency zoom is kept as positions in the image, so gestures move evenly along the
+  // displayed scale, and exposed in Hz as well
+  const frequencyMapping = useMemo(() => frequencyScale && {
+    toPosition: frequencyPosition(frequencyScale),
+    toFrequency: positionFrequency(frequencyScale),
+  }, [frequencyScale]);
+  const [frequencyView, setFrequencyView] = useState(FULL_VIEW);
+
+  // A different scale lays out the rows differently, so start again from the whole band
+  useEffect(() => {
+    setFrequencyView(FULL_VIEW);
+  }, [frequencyMapping]);
+
+  const setFrequencyPositions = (bottom: number, top: number) => {
+    const span = Math.min(Math.max(top - bottom, MINIMUM_FREQUENCY_SPAN), 1);
+    const clampedBottom = Math.min(Math.max(bottom, 0), 1 - span);
+    setFrequencyView({ bottom: clampedBottom, top: clampedBottom + span });
+  };
+
+  const setFrequencyRange = (freqMin: number, freqMax: number) => {
+    if (!frequencyMapping) return;
+    setFrequencyPositions(frequencyMapping.toPosition(freqMin), frequencyMapping.toPosition(freqMax));
+  };
+
+  const zoomFrequencyAt = (anchorFrequency: number, factor: number) => {
+    if (!frequencyMapping) return;
+    setFrequencyView((view) => {
+      const span = Math.min(Math.max((view.top - view.bottom) * factor, MINIMUM_FREQUENCY_SPAN), 1);
+      const anchor = frequencyMapping.toPosition(anchorFrequency);
+      const anchorFraction = (anchor - view.bottom) / (view.top - view.bottom);
+      const bottom = Math.min(Math.max(anchor - anchorFraction * span, 0), 1 - span);
+      return { bottom, top: bottom + span };
+    });
+  };
+
+  const panFrequency = (delta: number) => {
+    setFrequencyView((view) => {
+      const span = view.top - view.bottom;
+      const bottom = Math.min(Math.max(view.bottom + delta, 0), 1 - span);
+      return { bottom, top: bottom + span };
+    });
+  };
+
+  const resetFrequencyZoom = () => setFrequencyView(FULL_VIEW);
+
+  const isFrequencyZoomed = frequencyView.bottom > 0 || frequencyView.top < 1;
+
   return (
     <ZoomContext.Provider
       value={{
@@ -288,6 +495,23 @@ function ZoomProvider(props: ZoomProviderProps) {
         setCenterTime,
         zoomIn,
         zoomOut,
+        zoomAt,
+        pan,
+        resetZoom,
+        freqMin: frequencyMapping?.toFrequency(frequencyView.bottom) ?? 0,
+        freqMax: frequencyMapping?.toFrequency(frequencyView.top) ?? 0,
+        frequencyView,
+        isFrequencyZoomed,
+        setFrequencyRange,
+        zoomFrequencyAt,
+        panFrequency,
+        resetFrequencyZoom,
+        selection,
+        setSelection,
+        clearSelection,
+        playSelection,
+        loopSelection,
+        zoomToSelection,
       }}
     >
       {children}
@@ -0,0 +1,173 @@
+import type { AudioSource } from "./types";
+
+// Cache identity for the audio and spectrogram queries. Keys describe what was computed
+// (the audio content and every parameter that affects the result) rather than where the
+// audio came from, so the same recording behind two blob URLs shares one cache entry.
+
+/**
+ * Bump when decoding or the spectrogram computation changes what a cached result contains,
+ * so results persisted by an older version are never reused
+ */
+export const CACHE_VERSION = 1;
+
+/**
+ * FNV-1a hash of a string as 16 hex digits (two 32-bit lanes with different seeds)
+ */
+export function hashString(input: string): string {
+    let h1 = 0x811c9dc5;
+    let h2 = 0x01000193 ^ 0x5bd1e995;
+    for (let i = 0; i < input.length; i++) {
+        const c = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ c, 0x01000193);
+        h2 = Math.imul(h2 ^ c, 0x01000193);
+    }
+    return (h1 >>> 0).toString(16).padStart(8, "0") + (h2 >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * FNV-1a over raw bytes, for when SubtleCrypto is unavailable (insecure origins)
+ */
+function hashBytes(bytes: Uint8Array): string {
+    let h1 = 0x811c9dc5;
+    let h2 = 0x01000193 ^ 0x5bd1e995;
+    for (let i = 0; i < bytes.length; i++) {
+        h1 = Math.imul(h1 ^ bytes[i], 0x01000193);
+        h2 = Math.imul(h2 ^ bytes[i], 0x01000193);
+    }
+    return (h1 >>> 0).toString(16).padStart(8, "0") + (h2 >>> 0).toString(16).padStart(8, "0");
+}
+
+async function digest(bytes: Uint8Array): Promise<string> {
+    if (!globalThis.crypto?.subtle) {
+        return hashBytes(bytes);
+    }
+    const hash = await crypto.subtle.digest("SHA-256", bytes);
+    return Array.from(new Uint8Array(hash), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Content hash of decoded audio, one digest per channel combined into one
+ */
+export async function hashSamples(samples: Float32Array | Float32Array[]): Promise<string> {
+    const channels = Array.isArray(samples) ? samples : [samples];
+    const digests = await Promise.all(
+        channels.map((channel) => digest(new Uint8Array(channel.buffer, channel.byteOffset, channel.byteLength)))
+    );
+    return digests.length === 1 ? digests[0] : digest(new TextEncoder().encode(digests.join(":")));
+}
+
+/**
+ * JSON with object keys sorted, so equal parameter objects always give the same string
+ */
+export function stableStringify(value: unknown): string {
+    if (value === undefined) return "null";
+    if (value === null || typeof value !== "object") return JSON.stringify(value);
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+    const entries = Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+}
+
+// Distinguishes in-memory sources of this page load from those persisted by earlier ones
+const SESSION_ID = hashString(`${Date.now()}-${Math.random()}`);
+const sourceIds = new WeakMap<object, string>();
+let nextSourceId = 0;
+
+/**
+ * Identity of an audio source before it is decoded: the URL itself, or for in-memory
+ * sources (File, Blob, ArrayBuffer, AudioBuffer, raw samples) an id tied to the object
+ */
+export function sourceIdentity(src: AudioSource): string {
+    if (typeof src === "string") return src;
+    let id = sourceIds.get(src);
+    if (!id) {
+        id = `local-${SESSION_ID}-${nextSourceId++}`;
+        sourceIds.set(src, id);
+    }
+    return id;
+}
+
+// Bytes read from the start of a file to version it when the server sends no validator
+const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * First `maxBytes` of a response body. A server that ignores the Range header sends the
+ * whole file, so the download is cancelled once enough has arrived.
+ */
+async function readPrefix(response: Response, maxBytes: number): Promise<Uint8Array> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+        return new Uint8Array(await response.arrayBuffer()).subarray(0, maxBytes);
+    }
+    const prefix = new Uint8Array(maxBytes);
+    let length = 0;
+    while (length < maxBytes) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const count = Math.min(value.length, maxBytes - length);
+        prefix.set(value.subarray(0, count), length);
+        length += count;
+    }
+    await reader.cancel();
+    return prefix.subarray(0, length);
+}
+
+/**
+ * Version of the content currently behind a URL, checked every time a player loads it so
+ * changed content at the same URL is never served from the cache. This is the ETag or
+ * Last-Modified header of a HEAD request. When the server sends neither (or hides them
+ * from a cross-origin page), it is the file size plus a hash of its first SAMPLE_BYTES,
+ * fetched with a Range request so a cache hit never downloads the whole file. That misses
+ * edits which keep the size and the start of the file; pass a `cacheKey` for those.
+ */
+export async function urlContentVersion(url: string): Promise<string> {
+    const head = await fetch(url, { method: "HEAD", cache: "no-cache" }).catch(() => null);
+    if (head?.ok) {
+        const validator = head.headers.get("ETag") ?? head.headers.get("Last-Modified");
+        if (validator) {
+            return `header:${validator}:${head.headers.get("Content-Length") ?? ""}`;
+        }
+    }
+
+    const response = await fetch(url, { cache: "no-cache", headers: { Range: `bytes=0-${SAMPLE_BYTES - 1}` } });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+    const size = (head?.ok ? head.headers.get("Content-Length") : null)
+        ?? response.headers.get("Content-Range")?.split("/")[1]
+        ?? (response.status === 200 ? response.headers.get("Content-Length") : null)
+        ?? "";
+    const prefix = await readPrefix(response, SAMPLE_BYTES);
+    return `sample:${size}:${await digest(prefix)}`;
+}
+
+/**
+ * Key of the decoded audio query. Audio has to be loaded before its content can be
+ * hashed, so this uses the caller's `cacheKey` when given, and otherwise the source
+ * identity plus, for URLs, the content version from urlContentVersion.
+ */
+export function audioQueryKey(src: AudioSource, sampleRate: number, cacheKey?: string, contentVersion?: string) {
+    return ["audio", CACHE_VERSION, cacheKey ?? sourceIdentity(src), contentVersion ?? "", sampleRate] as const;
+}
+
+/**
+ * Everything the spectrogram matrices depend on. Colour settings (colormap, tone,
+ * transparency and the dB range) are applied to the cached matrices afterwards, so
+ * changing them never invalidates the cache and they are left out on purpose.
+ */
+export interface SpectrogramIdentity {
+    sampleRate: number;
+    numSamples: number;
+    channelMode: string;
+    params: Record<string, unknown>;
+}
+
+/**
+ * Key of the spectrogram query: the audio's content key plus a full, versioned
+ * description of the parameters
+ */
+export function spectrogramQueryKey(audioKey: string, identity: SpectrogramIdentity) {
+    return ["spectrogram", CACHE_VERSION, audioKey, stableStringify(identity)] as const;
+}
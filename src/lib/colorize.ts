@@ -0,0 +1,131 @@
+import createColorMap from "colormap";
+import { Colormap, CustomColormap, DbLimit, DbRange, RGBA, SpectrogramMatrix, ToneOptions } from "./types";
+
+export const LUT_SIZE = 256;
+
+export type ColorLut = RGBA[];
+
+/**
+ * Lookup table after the tone curve: colors[i] is the colour for a value at position
+ * i / (LUT_SIZE - 1) of the dB range, levels[i] its toned level (used for alpha)
+ */
+export interface DisplayLut {
+    colors: ColorLut;
+    levels: Uint8Array;
+}
+
+function interpolateStops(stops: RGBA[]): ColorLut {
+    if (stops.length === 1) {
+        return Array.from({ length: LUT_SIZE }, () => [...stops[0]] as RGBA);
+    }
+    const lut: ColorLut = [];
+    for (let i = 0; i < LUT_SIZE; i++) {
+        const position = (i / (LUT_SIZE - 1)) * (stops.length - 1);
+        const lo = Math.floor(position);
+        const hi = Math.min(lo + 1, stops.length - 1);
+        const t = position - lo;
+        lut.push(stops[lo].map((value, channel) => value + (stops[hi][channel] - value) * t) as RGBA);
+    }
+    return lut;
+}
+
+/**
+ * Build the colour lookup table for a named or custom colormap, falling back to viridis
+ * for unknown names or empty stop lists
+ */
+export function buildColorLut(colormap: Colormap | CustomColormap): ColorLut {
+    if (typeof colormap === "function") {
+        return Array.from({ length: LUT_SIZE }, (_, i) => colormap(i / (LUT_SIZE - 1)));
+    }
+    if (Array.isArray(colormap) && colormap.length > 0) {
+        return interpolateStops(colormap);
+    }
+    try {
+        return createColorMap({ colormap: colormap as string, nshades: LUT_SIZE, format: "rgba", alpha: 1 });
+    } catch (error) {
+        console.warn(`[colorize] Unknown colormap "${colormap}", falling back to viridis`, error);
+        return createColorMap({ colormap: "viridis", nshades: LUT_SIZE, format: "rgba", alpha: 1 });
+    }
+}
+
+/**
+ * Apply brightness, contrast and gamma to the value-to-colour mapping.
+ * Contrast scales around the middle of the range, brightness shifts it (-1 to 1),
+ * and gamma above 1 darkens the low end.
+ */
+export function buildDisplayLut(lut: ColorLut, tone: ToneOptions): DisplayLut {
+    const colors: ColorLut = [];
+    const levels = new Uint8Array(LUT_SIZE);
+    for (let i = 0; i < LUT_SIZE; i++) {
+        const value = i / (LUT_SIZE - 1);
+        const adjusted = Math.min(Math.max((value - 0.5) * tone.contrast + 0.5 + tone.brightness, 0), 1);
+        const level = Math.round(Math.pow(adjusted, tone.gamma) * (LUT_SIZE - 1));
+        colors.push(lut[level]);
+        levels[i] = level;
+    }
+    return { colors, levels };
+}
+
+/**
+ * Resolve the colour range shared by all lanes, letting fixed dbMin/dbMax values
+ * override the measured range. The measured floor is kept within top_db of the loudest lane.
+ */
+export function resolveRange(matrices: SpectrogramMatrix[], dbMin: DbLimit, dbMax: DbLimit, top_db: number): DbRange {
+    const measuredMax = Math.max(...matrices.map((matrix) => matrix.max));
+    const measuredMin = Math.max(Math.min(...matrices.map((matrix) => matrix.min)), measuredMax - top_db);
+    return {
+        min: typeof dbMin === "number" ? dbMin : measuredMin,
+        max: typeof dbMax === "number" ? dbMax : measuredMax,
+    };
+}
+
+// Frames of the matrix to colour; every `step` frames are max-pooled into one pixel column
+export interface FrameRegion {
+    start: number;
+    count: number;
+    step: number;
+}
+
+/**
+ * Colour a dB matrix, or a region of it, with a lookup table.
+ * Row 0 of the image is the highest frequency bin.
+ */
+export function colorizeSpectrogram(
+    matrix: SpectrogramMatrix,
+    lut: DisplayLut,
+    range: DbRange,
+    transparent: boolean,
+    region: FrameRegion = { start: 0, count: matrix.frames, step: 1 }
+): ImageData {
+    const { data, frames, bins } = matrix;
+    const { colors, levels } = lut;
+    const step = Math.max(1, Math.floor(region.step));
+    const end = Math.min(frames, region.start + region.count);
+    const width = Math.max(1, Math.ceil((end - region.start) / step));
+    const imageData = new ImageData(width, bins);
+    const pixels = imageData.data;
+    const scale = (LUT_SIZE - 1) / (range.max - range.min || 1);
+
+    for (let x = 0; x < width; x++) {
+        const frameStart = region.start + x * step;
+        const frameEnd = Math.min(end, frameStart + step);
+        for (let b = 0; b < bins; b++) {
+            // Max-pool so short events stay visible when zoomed out
+            let peak = -Infinity;
+            for (let f = frameStart; f < frameEnd; f++) {
+                const value = data[f * bins + b];
+                if (value > peak) peak = value;
+            }
+            const value = Math.min(Math.max(peak, range.min), range.max);
+            const index = Math.floor((value - range.min) * scale);
+            const color = colors[index];
+            const pixel = ((bins - 1 - b) * width + x) * 4;
+            pixels[pixel] = color[0];
+            pixels[pixel + 1] = color[1];
+            pixels[pixel + 2] = color[2];
+            pixels[pixel + 3] = transparent ? levels[index] * color[3] : 255;
+        }
+    }
+
+    return imageData;
+}
@@ -0,0 +1,152 @@
+import { hzToMel, melToHz } from "./stft";
+import type { SpectrogramScale } from "./types";
+
+// Where each frequency lands in the spectrogram image, following the row layout of the
+// scale that computed it (see stft.ts). Positions run from 0 at the bottom edge of the
+// image to 1 at the top edge; each row covers an equal share of the height.
+
+export interface FrequencyScaleParams {
+    scale: SpectrogramScale;
+    sampleRate: number;
+    n_fft: number;
+    win_length: number;
+    pad: number;
+    f_min: number;
+    f_max: number;
+    n_mels: number;
+}
+
+export interface FrequencyTick {
+    value: number;
+    position: number;
+}
+
+/**
+ * Position of a frequency in the image, or NaN where the scale has no value (0 Hz on a log axis)
+ */
+export function frequencyPosition(params: FrequencyScaleParams): (hz: number) => number {
+    const { scale, sampleRate, n_fft, win_length, pad, f_min, f_max, n_mels } = params;
+    // Row r of `rows` is centred at (r + 0.5) / rows
+    const rowPosition = (row: number, rows: number) => (row + 0.5) / rows;
+
+    if (scale === "linear") {
+        const fftSize = Math.max(n_fft, win_length) + Math.max(0, pad);
+        const binHz = sampleRate / fftSize;
+        const firstBin = Math.max(0, Math.floor(f_min / binHz));
+        const lastBin = Math.min(Math.floor(fftSize / 2), Math.ceil(f_max / binHz));
+        return (hz) => rowPosition(hz / binHz - firstBin, lastBin - firstBin + 1);
+    }
+
+    if (scale === "log") {
+        const fftSize = Math.max(n_fft, win_length) + Math.max(0, pad);
+        const logMin = Math.log(Math.max(f_min, sampleRate / fftSize));
+        const logMax = Math.log(Math.min(f_max, sampleRate / 2));
+        return (hz) => hz > 0
+            ? rowPosition(((Math.log(hz) - logMin) / (logMax - logMin)) * Math.max(n_mels - 1, 1), n_mels)
+            : NaN;
+    }
+
+    // Mel band m is centred on the (m + 1)th of n_mels + 2 points evenly spaced in mel
+    const melMin = hzToMel(f_min);
+    const melMax = hzToMel(f_max);
+    return (hz) => rowPosition(((hzToMel(hz) - melMin) / (melMax - melMin)) * (n_mels + 1) - 1, n_mels);
+}
+
+/**
+ * Frequency at a position in the image, the inverse of frequencyPosition
+ */
+export function positionFrequency(params: FrequencyScaleParams): (position: number) => number {
+    const { scale, sampleRate, n_fft, win_length, pad, f_min, f_max, n_mels } = params;
+    const positionRow = (position: number, rows: number) => position * rows - 0.5;
+
+    if (scale === "linear") {
+        const fftSize = Math.max(n_fft, win_length) + Math.max(0, pad);
+        const binHz = sampleRate / fftSize;
+        const firstBin = Math.max(0, Math.floor(f_min / binHz));
+        const lastBin = Math.min(Math.floor(fftSize / 2), Math.ceil(f_max / binHz));
+        return (position) => (positionRow(position, lastBin - firstBin + 1) + firstBin) * binHz;
+    }
+
+    if (scale === "log") {
+        const fftSize = Math.max(n_fft, win_length) + Math.max(0, pad);
+        const logMin = Math.log(Math.max(f_min, sampleRate / fftSize));
+        const logMax = Math.log(Math.min(f_max, sampleRate / 2));
+        return (position) => Math.exp(logMin + (positionRow(position, n_mels) / Math.max(n_mels - 1, 1)) * (logMax - logMin));
+    }
+
+    const melMin = hzToMel(f_min);
+    const melMax = hzToMel(f_max);
+    return (position) => melToHz(melMin + ((positionRow(position, n_mels) + 1) / (n_mels + 1)) * (melMax - melMin));
+}
+
+// Pick a 1/2/5 x 10^n step at least `rough` wide
+function niceStep(rough: number) {
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+    const residual = rough / magnitude;
+    if (residual > 5) return 10 * magnitude;
+    if (residual > 2) return 5 * magnitude;
+    if (residual > 1) return 2 * magnitude;
+    return magnitude;
+}
+
+/**
+ * Candidate tick values between `low` and `high` Hz, roundest first. The linear scale
+ * uses an even step; the nonlinear scales use 1, 2, 5 and then the other multiples of
+ * each power of ten, since an even step would crowd the compressed end of the axis.
+ * An even step comes last for them too, to fill narrow bands with no round values.
+ */
+function candidateTicks(scale: SpectrogramScale, low: number, high: number, maxTicks: number): number[][] {
+    const step = niceStep((high - low) / maxTicks);
+    const evenValues = [];
+    for (let i = Math.ceil(low / step); i * step <= high; i++) {
+        evenValues.push(i * step);
+    }
+    if (scale === "linear") {
+        return [evenValues];
+    }
+
+    const levels: number[][] = [[], [], []];
+    const lowest = Math.pow(10, Math.floor(Math.log10(Math.max(low, 10))));
+    for (let decade = lowest; decade <= high; decade *= 10) {
+        for (let multiple = 1; multiple < 10; multiple++) {
+            const level = multiple === 1 ? 0 : multiple === 2 || multiple === 5 ? 1 : 2;
+            levels[level].push(multiple * decade);
+        }
+    }
+    // Within a level, higher frequencies sit further apart on these scales, so place them first
+    return [...levels, evenValues].map((values) => values.reverse());
+}
+
+/**
+ * Ticks for an axis `height` pixels tall, at least `minSpacing` pixels apart. With a
+ * `view` of positions (a vertical zoom), ticks cover that part of the image and their
+ * positions are relative to it.
+ */
+export function frequencyTicks(
+    params: FrequencyScaleParams,
+    height: number,
+    minSpacing: number,
+    view: { bottom: number; top: number } = { bottom: 0, top: 1 }
+): FrequencyTick[] {
+    const fullPosition = frequencyPosition(params);
+    const frequencyAt = positionFrequency(params);
+    const position = (hz: number) => (fullPosition(hz) - view.bottom) / (view.top - view.bottom);
+    const low = Math.max(params.f_min, frequencyAt(view.bottom));
+    const high = Math.min(params.f_max, frequencyAt(view.top));
+    const maxTicks = Math.max(2, Math.floor(height / minSpacing));
+    const ticks: FrequencyTick[] = [];
+
+    for (const level of candidateTicks(params.scale, low, high, maxTicks)) {
+        for (const value of level) {
+            const tickPosition = position(value);
+            if (!(tickPosition >= 0 && tickPosition <= 1)) continue;
+            if (ticks.some((tick) => Math.abs(tick.position - tickPosition) * height < minSpacing)) continue;
+            ticks.push({ value, position: tickPosition });
+        }
+    }
+    return ticks.sort((a, b) => a.value - b.value);
+}
+
+export function formatFrequency(hz: number): string {
+    return hz >= 1000 ? `${Number((hz / 1000).toFixed(3))} kHz` : `${Number(hz.toFixed(1))} Hz`;
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Colormap } from './types';
+import { AudioSource, Backend, CacheMode, ChannelMode, Colormap, CustomColormap, SpectrogramScale, WindowFunction, DbLimit, PlayheadMode, TimeSelection } from './types';
 export interface Annotations {
     data: (string | number)[][];
     title?: string;
@@ -8,8 +8,11 @@ export interface Annotations {
 }
 
 export interface SpectrogramPlayerProps {
-    src: string;
-    sxx?: number[][];
+    src?: AudioSource;
+    stream?: MediaStream;
+    mediaElement?: HTMLMediaElement;
+    liveWindow?: number;
+    spectrogramData?: number[][];
     sampleRate?: number;
     n_fft?: number;
     win_length?: number;
@@ -18,22 +21,54 @@ export interface SpectrogramPlayerProps {
     f_max?: number;
     n_mels?: number;
     top_db?: number;
+    scale?: SpectrogramScale;
+    window?: WindowFunction;
+    center?: boolean;
+    pad?: number;
+    dbMin?: DbLimit;
+    dbMax?: DbLimit;
+    channelMode?: ChannelMode;
+    adaptive?: boolean;
+    adaptiveThreshold?: number;
+    adaptiveWinLength?: number;
     annotations?: Annotations[];
     navigator?: boolean;
     settings?: boolean;
+    controls?: boolean;
     startTimeInitial?: number;
     endTimeInitial?: number;
     playbackSpeedInitial?: number;
-    playheadModeInitial?: string;
+    preservePitch?: boolean;
+    playheadModeInitial?: PlayheadMode;
     specHeight?: number;
     navHeight?: number;
-    colormap?: Colormap;
+    colormap?: Colormap | CustomColormap;
+    gamma?: number;
+    contrast?: number;
+    brightness?: number;
     transparent?: boolean;
     dark?: boolean;
     playheadColor?: string;
     playheadWidth?: number;
+    backend?: Backend;
+    colorbar?: boolean;
+    frequencyAxis?: boolean;
+    timeline?: boolean;
+    onSelectionChange?: (selection: TimeSelection | null) => void;
+    cache?: CacheMode;
+    cacheKey?: string;
+    cacheBudget?: number;
+}
+
+export interface SpectrogramDropzoneProps extends Omit<SpectrogramPlayerProps, 'src'> {
+    initialSrc?: AudioSource;
+    maxRecent?: number;
+    accept?: string;
+    onFileChange?: (file: File) => void;
 }
 
 declare const SpectrogramPlayer: React.FC<SpectrogramPlayerProps>;
 
+export declare const SpectrogramDropzone: React.FC<SpectrogramDropzoneProps>;
+
 export default SpectrogramPlayer; 
\ No newline at end of file
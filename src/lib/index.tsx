@@ -1,3 +1,4 @@
 import SpectrogramPlayer from "@/lib/SpectrogramPlayer";
+export { default as SpectrogramDropzone } from "@/lib/SpectrogramDropzone";
 
 export default SpectrogramPlayer;
@@ -0,0 +1,138 @@
+import type { AsyncStorage, PersistedQuery } from "@tanstack/react-query-persist-client";
+import { hashString } from "./cache-key";
+
+const log = (func: string, msg: string) => {
+    console.log(`[IndexedDBStorage] ${func}: ${msg}`);
+};
+
+const DB_VERSION = 1;
+// Persisted values, keyed by a hash of the query key
+const VALUES_STORE = "values";
+// Size and last access of every value, read on eviction without loading the values themselves
+const ENTRIES_STORE = "entries";
+
+interface CacheEntry {
+    key: string;
+    size: number;
+    lastAccess: number;
+}
+
+export interface IndexedDBStorageOptions {
+    dbName?: string;
+    // Least recently used values are evicted once the total exceeds this many bytes
+    maxBytes?: number;
+}
+
+/**
+ * Rough size of a structured-cloneable value in bytes. Typed arrays count their whole
+ * buffer, since that is what structured clone stores.
+ */
+function estimateSize(value: unknown): number {
+    if (value === null || value === undefined) return 0;
+    if (typeof value === "string") return value.length * 2;
+    if (typeof value === "number" || typeof value === "boolean") return 8;
+    if (ArrayBuffer.isView(value)) return value.buffer.byteLength;
+    if (value instanceof ArrayBuffer) return value.byteLength;
+    if (Array.isArray(value)) return value.reduce((sum: number, item) => sum + estimateSize(item), 0);
+    if (typeof value === "object") {
+        return Object.entries(value).reduce((sum, [key, item]) => sum + key.length * 2 + estimateSize(item), 0);
+    }
+    return 0;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Async React Query storage on IndexedDB. Values are stored by structured clone rather
+ * than JSON, so decoded audio and spectrogram matrices keep their typed arrays, and
+ * writes never block the main thread the way localStorage does.
+ */
+export function createIndexedDBStorage(options: IndexedDBStorageOptions = {}): AsyncStorage<PersistedQuery> {
+    const { dbName = "react-audio-spectrogram-player", maxBytes = 500 * 1024 * 1024 } = options;
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const openDB = () => {
+        if (!dbPromise) {
+            const request = indexedDB.open(dbName, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore(VALUES_STORE);
+                db.createObjectStore(ENTRIES_STORE, { keyPath: "key" });
+            };
+            dbPromise = promisify(request);
+        }
+        return dbPromise;
+    };
+
+    const evict = async (db: IDBDatabase) => {
+        const entries = await promisify<CacheEntry[]>(
+            db.transaction(ENTRIES_STORE, "readonly").objectStore(ENTRIES_STORE).getAll()
+        );
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        if (total <= maxBytes) return;
+
+        entries.sort((a, b) => a.lastAccess - b.lastAccess);
+        const transaction = db.transaction([VALUES_STORE, ENTRIES_STORE], "readwrite");
+        for (const entry of entries) {
+            if (total <= maxBytes) break;
+            transaction.objectStore(VALUES_STORE).delete(entry.key);
+            transaction.objectStore(ENTRIES_STORE).delete(entry.key);
+            total -= entry.size;
+            log("evict", `Evicted ${entry.key} (${entry.size} bytes)`);
+        }
+        await transactionDone(transaction);
+    };
+
+    return {
+        getItem: async (key) => {
+            const db = await openDB();
+            const hashedKey = hashString(key);
+            const transaction = db.transaction([VALUES_STORE, ENTRIES_STORE], "readwrite");
+            const done = transactionDone(transaction);
+            const value = await promisify<PersistedQuery | undefined>(transaction.objectStore(VALUES_STORE).get(hashedKey));
+            if (value !== undefined) {
+                // Refresh the LRU position
+                const entries = transaction.objectStore(ENTRIES_STORE);
+                const entry = await promisify<CacheEntry | undefined>(entries.get(hashedKey));
+                if (entry) entries.put({ ...entry, lastAccess: Date.now() });
+            }
+            await done;
+            return value;
+        },
+        setItem: async (key, value) => {
+            const db = await openDB();
+            const hashedKey = hashString(key);
+            const size = estimateSize(value);
+            if (size > maxBytes) {
+                log("setItem", `Skipping ${hashedKey}: ${size} bytes is over the ${maxBytes} byte budget`);
+                return;
+            }
+            const transaction = db.transaction([VALUES_STORE, ENTRIES_STORE], "readwrite");
+            transaction.objectStore(VALUES_STORE).put(value, hashedKey);
+            transaction.objectStore(ENTRIES_STORE).put({ key: hashedKey, size, lastAccess: Date.now() } satisfies CacheEntry);
+            await transactionDone(transaction);
+            await evict(db);
+        },
+        removeItem: async (key) => {
+            const db = await openDB();
+            const hashedKey = hashString(key);
+            const transaction = db.transaction([VALUES_STORE, ENTRIES_STORE], "readwrite");
+            transaction.objectStore(VALUES_STORE).delete(hashedKey);
+            transaction.objectStore(ENTRIES_STORE).delete(hashedKey);
+            await transactionDone(transaction);
+        },
+    };
+}
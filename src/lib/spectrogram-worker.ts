@@ -1,4 +1,6 @@
 import init, { mel_spectrogram_db } from "rust-melspec-wasm";
+import { isWasmCompatible, linearSpectrogramDb, logSpectrogramDb, melSpectrogramDb, StftOptions } from "./stft";
+import type { SpectrogramMatrix, SpectrogramScale } from "./types";
 
 // Create a worker console.log wrapper
 const log = (func: string, msg: string) => {
@@ -7,144 +9,182 @@ const log = (func: string, msg: string) => {
 
 
 let wasmInitialized = false;
-// Helper functions (moved from main file)
-function max(arr: Float32Array[]) {
-    let maxVal = -Infinity;
-    for (let i = 0; i < arr.length; i++) {
-        const rowMax = Math.max(...arr[i]);
-        maxVal = Math.max(maxVal, rowMax);
-    }
-    return maxVal;
+
+// Frames to keep from a chunk that was computed with extra overlap on either side
+export interface FrameTrim {
+    start: number;
+    count: number;
 }
 
-function min(arr: Float32Array[]) {
-    let minVal = Infinity;
-    for (let i = 0; i < arr.length; i++) {
-        const rowMin = Math.min(...arr[i]);
-        minVal = Math.min(minVal, rowMin);
+// STFT settings plus the frequency rows and dB floor of the result
+export interface SpectrogramParams extends StftOptions {
+    f_min: number;
+    f_max: number;
+    n_mels: number;
+    top_db: number;
+    scale?: SpectrogramScale;
+}
+
+// Define the worker's communication interface
+export interface SpectrogramJobRequest {
+    id: number;
+    spectrogramData?: number[][];
+    // Transferred to the worker, so the caller must not keep using this buffer
+    samples: Float32Array;
+    sampleRate: number;
+    params: SpectrogramParams;
+    trim?: FrameTrim;
+}
+
+export type SpectrogramJobResponse =
+    | { type: 'result'; id: number; matrix: SpectrogramMatrix | null }
+    | { type: 'error'; id: number; message: string }
+    | { type: 'log'; data: { func: string; msg: string } };
+
+async function ensureInitialized() {
+    if (!wasmInitialized) {
+        log("ensureInitialized", "Initializing WASM module");
+        await init();
+        wasmInitialized = true;
     }
-    return minVal;
 }
 
-// Import the colormap at runtime (can't use direct imports in workers)
-let colormap: any = null;
-async function loadColormap() {
-    if (!colormap) {
-        try {
-            // Dynamic import of the colormap module
-            const colormapModule = await import('colormap');
-            colormap = colormapModule.default;
-        } catch (error) {
-            log('loadColormap', `Error loading colormap: ${error}`);
-            throw error;
+/**
+ * Flatten frames into a single frame-major Float32Array so the result crosses the
+ * worker boundary as one buffer instead of thousands of small arrays
+ */
+function toMatrix(spec: Float32Array[]): SpectrogramMatrix {
+    const frames = spec.length;
+    const bins = frames > 0 ? spec[0].length : 0;
+    const data = new Float32Array(frames * bins);
+    let minVal = Infinity;
+    let maxVal = -Infinity;
+    for (let f = 0; f < frames; f++) {
+        const frame = spec[f];
+        data.set(frame, f * bins);
+        for (let b = 0; b < bins; b++) {
+            if (frame[b] < minVal) minVal = frame[b];
+            if (frame[b] > maxVal) maxVal = frame[b];
         }
     }
-    return colormap;
+    return { data, frames, bins, min: minVal, max: maxVal };
 }
 
-function getImageData(spec: Float32Array[], transparent: boolean, colormapName: string) {
-    if (!colormap) {
-        throw new Error('Colormap not loaded');
-    }
+function computeSpectrogramDb(audioSamples: Float32Array, sampleRate: number, params: SpectrogramParams): Float32Array[] {
+    const stftOptions: StftOptions = {
+        n_fft: params.n_fft,
+        win_length: params.win_length,
+        hop_length: params.hop_length,
+        window: params.window,
+        center: params.center,
+        pad: params.pad,
+    };
 
-    let colors;
-    try {
-        colors = colormap({
-            colormap: colormapName,
-            nshades: 256,
-            format: "rgba",
-            alpha: 255,
-        });
-    } catch (error) {
-        log('getImageData', `Error with colormap "${colormapName}": ${error}`);
-        // Fallback to a default colormap if the requested one doesn't exist
-        colors = colormap({
-            colormap: 'viridis', // Default fallback colormap
-            nshades: 256,
-            format: "rgba",
-            alpha: 255,
-        });
+    if (params.scale === "linear") {
+        return linearSpectrogramDb(
+            sampleRate,
+            audioSamples,
+            stftOptions,
+            params.f_min,
+            params.f_max,
+            params.top_db
+        );
+    }
+    if (params.scale === "log") {
+        return logSpectrogramDb(
+            sampleRate,
+            audioSamples,
+            stftOptions,
+            params.f_min,
+            params.f_max,
+            params.top_db,
+            params.n_mels
+        );
+    }
+    if (!isWasmCompatible(stftOptions)) {
+        return melSpectrogramDb(
+            sampleRate,
+            audioSamples,
+            stftOptions,
+            params.f_min,
+            params.f_max,
+            params.n_mels,
+            params.top_db
+        );
     }
+    return mel_spectrogram_db(
+        sampleRate,
+        audioSamples,
+        params.n_fft,
+        params.win_length,
+        params.hop_length,
+        params.f_min,
+        params.f_max,
+        params.n_mels,
+        params.top_db
+    );
+}
 
-    const smax = max(spec);
-    const smin = min(spec);
+/**
+ * Compute the dB spectrogram of one chunk. Colouring happens on the main thread so
+ * the matrix can be cached and recoloured without recomputing the STFT.
+ */
+async function computeSpectrogram(
+    audioSamples: Float32Array,
+    sampleRate: number,
+    params: SpectrogramParams,
+    trim?: FrameTrim
+): Promise<SpectrogramMatrix | null> {
+    await ensureInitialized();
 
-    const imageData = new ImageData(spec.length, spec[0].length);
+    if (!audioSamples || audioSamples.length === 0) {
+        log("computeSpectrogram", "No audio samples available");
+        return null;
+    }
 
-    for (let j = spec[0].length - 1; j >= 0; j--) {
-        for (let i = spec.length - 1; i >= 0; i--) {
-            const num = Math.floor((255 * (spec[i][j] - smin)) / (smax - smin));
-            const redIndex = ((spec[0].length - 1 - j) * spec.length + i) * 4;
-            imageData.data[redIndex] = colors[num][0];
-            imageData.data[redIndex + 1] = colors[num][1];
-            imageData.data[redIndex + 2] = colors[num][2];
-            imageData.data[redIndex + 3] = transparent ? num : 255;
-        }
+    let spec = computeSpectrogramDb(audioSamples, sampleRate, params);
+    if (trim) {
+        spec = spec.slice(trim.start, trim.start + trim.count);
     }
+    log("computeSpectrogram", `${params.scale ?? "mel"} spectrogram computed successfully with ${spec.length} frames`);
 
-    return imageData;
+    return toMatrix(spec);
 }
 
-
-export async function processSpectrogram(
+async function processSpectrogram(
     spectrogramData: number[][] | undefined,
     audioSamples: Float32Array,
     sampleRate: number,
-    params: any
-) {
+    params: SpectrogramParams,
+    trim?: FrameTrim
+): Promise<SpectrogramMatrix | null> {
     log("processSpectrogram", "Starting spectrogram computation in worker");
     const queryStart = performance.now();
 
-    let spec: Float32Array[];
-
-    if (!wasmInitialized) {
-        log("processSpectrogram", "Initializing WASM module");
-        await init();
-
-    }
-
-    if (!colormap) {
-        await loadColormap();
-    }
-
     if (spectrogramData !== undefined) {
         log("processSpectrogram", "Using provided spectrogramData");
-        spec = spectrogramData[0].map(
+        const spec = spectrogramData[0].map(
             (_, colIndex) => new Float32Array(spectrogramData.map((row) => row[colIndex]))
         );
-        const imageData = getImageData(spec, params.transparent, params.colormap);
-        return {
-            width: imageData.width,
-            height: imageData.height,
-            imageData: imageData,
-        };
-    }
-
-    if (!audioSamples || audioSamples.length === 0) {
-        log("processSpectrogram", "No audio samples available");
-        return null;
+        return toMatrix(spec);
     }
 
-    spec = mel_spectrogram_db(
-        sampleRate,
-        audioSamples,
-        params.n_fft,
-        params.win_length,
-        params.hop_length,
-        params.f_min,
-        params.f_max,
-        params.n_mels,
-        params.top_db
-    );
-    log("processSpectrogram", `Mel spectrogram computed successfully with ${spec.length} frames`);
-    // Generate image data from spectrogram
-    const imageData = getImageData(spec, params.transparent, params.colormap);
+    const result = await computeSpectrogram(audioSamples, sampleRate, params, trim);
     const queryEnd = performance.now();
     log("processSpectrogram", `Total processing time: ${(queryEnd - queryStart).toFixed(2)}ms`);
 
-    return {
-        width: imageData.width,
-        height: imageData.height,
-        imageData: imageData,
-    };
+    return result;
 }
+
+// Handle the incoming jobs. The matrix buffer is transferred back instead of copied.
+self.onmessage = async (e: MessageEvent<SpectrogramJobRequest>) => {
+    const { id, spectrogramData, samples, sampleRate, params, trim } = e.data;
+    try {
+        const matrix = await processSpectrogram(spectrogramData, samples, sampleRate, params, trim);
+        const response: SpectrogramJobResponse = { type: 'result', id, matrix };
+        self.postMessage(response, { transfer: matrix ? [matrix.data.buffer] : [] });
+    } catch (error) {
+        const response: SpectrogramJobResponse = { type: 'error', id, message: String(error) };
+        self.postMessage(response);
+    }
+};
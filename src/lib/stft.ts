@@ -0,0 +1,399 @@
+import { WindowFunction } from "./types";
+
+// Plain JavaScript STFT used for the non-mel spectrogram scales and for
+// mel spectrograms with options that rust-melspec-wasm does not support.
+
+export interface StftOptions {
+    n_fft: number;
+    win_length: number;
+    hop_length: number;
+    window?: WindowFunction;
+    center?: boolean;
+    pad?: number;
+}
+
+/**
+ * Zeroth order modified Bessel function of the first kind, used by the Kaiser window
+ */
+function besselI0(x: number): number {
+    let sum = 1;
+    let term = 1;
+    const halfX = x / 2;
+    for (let k = 1; k < 50; k++) {
+        term *= (halfX / k) * (halfX / k);
+        sum += term;
+        if (term < sum * 1e-12) break;
+    }
+    return sum;
+}
+
+/**
+ * Periodic analysis window of the given length.
+ * Gaussian sigma is relative to half the window length (0.4 is a reasonable default).
+ */
+export function createWindow(windowFunction: WindowFunction, length: number): Float32Array {
+    const w = new Float32Array(length);
+    const spec = typeof windowFunction === "string" ? { name: windowFunction } : windowFunction;
+
+    for (let i = 0; i < length; i++) {
+        const phase = (2 * Math.PI * i) / length;
+        switch (spec.name) {
+            case "rectangular":
+                w[i] = 1;
+                break;
+            case "hamming":
+                w[i] = 0.54 - 0.46 * Math.cos(phase);
+                break;
+            case "blackman":
+                w[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+                break;
+            case "blackman-harris":
+                w[i] = 0.35875 - 0.48829 * Math.cos(phase) + 0.14128 * Math.cos(2 * phase) - 0.01168 * Math.cos(3 * phase);
+                break;
+            case "kaiser": {
+                const ratio = (2 * i) / length - 1;
+                w[i] = besselI0(spec.beta * Math.sqrt(Math.max(0, 1 - ratio * ratio))) / besselI0(spec.beta);
+                break;
+            }
+            case "gaussian": {
+                const half = length / 2;
+                const x = (i - half) / (spec.sigma * half);
+                w[i] = Math.exp(-0.5 * x * x);
+                break;
+            }
+            default:
+                w[i] = 0.5 - 0.5 * Math.cos(phase);
+        }
+    }
+    return w;
+}
+
+/**
+ * Whether the options can be handled by rust-melspec-wasm, which only supports
+ * a centred Hann window without extra zero padding
+ */
+export function isWasmCompatible(options: StftOptions): boolean {
+    const windowFunction = options.window ?? "hann";
+    return windowFunction === "hann" && (options.center ?? true) && !options.pad;
+}
+
+/**
+ * Smallest power of two that is greater than or equal to n
+ */
+export function nextPowerOfTwo(n: number): number {
+    let size = 1;
+    while (size < n) {
+        size <<= 1;
+    }
+    return size;
+}
+
+/**
+ * In-place iterative radix-2 FFT. Both arrays must have the same power-of-two length.
+ */
+export function fft(re: Float32Array, im: Float32Array): void {
+    const n = re.length;
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            let tmp = re[i];
+            re[i] = re[j];
+            re[j] = tmp;
+            tmp = im[i];
+            im[i] = im[j];
+            im[j] = tmp;
+        }
+    }
+
+    // Butterflies
+    for (let size = 2; size <= n; size <<= 1) {
+        const half = size >> 1;
+        const step = (-2 * Math.PI) / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const wr = Math.cos(step * k);
+                const wi = Math.sin(step * k);
+                const a = start + k;
+                const b = a + half;
+                const tr = re[b] * wr - im[b] * wi;
+                const ti = re[b] * wi + im[b] * wr;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+            }
+        }
+    }
+}
+
+/**
+ * In-place FFT of any length: radix-2 for powers of two and Bluestein's chirp z-transform,
+ * through a power-of-two convolution, for other sizes. The chirp tables are built once
+ * per transform, so create it once and reuse it for every frame.
+ */
+export function createFft(n: number): (re: Float32Array, im: Float32Array) => void {
+    if (nextPowerOfTwo(n) === n) {
+        return fft;
+    }
+
+    const m = nextPowerOfTwo(2 * n - 1);
+    // Chirp exp(-i pi k^2 / n); k^2 is reduced mod 2n so the angle stays accurate
+    const chirpCos = new Float32Array(n);
+    const chirpSin = new Float32Array(n);
+    // Spectrum of the conjugate chirp, wrapped around so it convolves circularly
+    const kernelRe = new Float32Array(m);
+    const kernelIm = new Float32Array(m);
+    for (let k = 0; k < n; k++) {
+        const angle = (Math.PI * ((k * k) % (2 * n))) / n;
+        chirpCos[k] = Math.cos(angle);
+        chirpSin[k] = Math.sin(angle);
+        kernelRe[k] = chirpCos[k];
+        kernelIm[k] = chirpSin[k];
+        if (k > 0) {
+            kernelRe[m - k] = chirpCos[k];
+            kernelIm[m - k] = chirpSin[k];
+        }
+    }
+    fft(kernelRe, kernelIm);
+
+    const workRe = new Float32Array(m);
+    const workIm = new Float32Array(m);
+    return (re, im) => {
+        workRe.fill(0);
+        workIm.fill(0);
+        for (let k = 0; k < n; k++) {
+            workRe[k] = re[k] * chirpCos[k] + im[k] * chirpSin[k];
+            workIm[k] = im[k] * chirpCos[k] - re[k] * chirpSin[k];
+        }
+        fft(workRe, workIm);
+        // Multiply by the kernel and conjugate, so the forward FFT below inverts the transform
+        for (let k = 0; k < m; k++) {
+            const r = workRe[k] * kernelRe[k] - workIm[k] * kernelIm[k];
+            const i = workRe[k] * kernelIm[k] + workIm[k] * kernelRe[k];
+            workRe[k] = r;
+            workIm[k] = -i;
+        }
+        fft(workRe, workIm);
+        for (let k = 0; k < n; k++) {
+            const r = workRe[k] / m;
+            const i = -workIm[k] / m;
+            re[k] = r * chirpCos[k] + i * chirpSin[k];
+            im[k] = i * chirpCos[k] - r * chirpSin[k];
+        }
+    };
+}
+
+/**
+ * Reflect-pad the signal by `pad` samples on both sides (like torch.stft with center=True)
+ */
+function reflectPad(samples: Float32Array, pad: number): Float32Array {
+    const padded = new Float32Array(samples.length + 2 * pad);
+    padded.set(samples, pad);
+    for (let i = 0; i < pad; i++) {
+        const left = Math.min(pad - i, samples.length - 1);
+        const right = Math.max(samples.length - 2 - i, 0);
+        padded[i] = samples[Math.max(left, 0)] ?? 0;
+        padded[pad + samples.length + i] = samples[right] ?? 0;
+    }
+    return padded;
+}
+
+/**
+ * Compute the power spectrogram of a signal.
+ * Returns one Float32Array of `floor(fftSize / 2) + 1` bins per frame, where fftSize
+ * is n_fft plus the extra zero padding. Any size works; powers of two are fastest.
+ */
+export function powerSpectrogram(
+    samples: Float32Array,
+    options: StftOptions
+): { frames: Float32Array[]; fftSize: number } {
+    const { n_fft, win_length, hop_length, window: windowFunction = "hann", center = true, pad = 0 } = options;
+    const frameLength = Math.max(n_fft, win_length);
+    const fftSize = frameLength + Math.max(0, pad);
+    const transform = createFft(fftSize);
+    const windowLength = Math.min(win_length, frameLength);
+    const analysisWindow = createWindow(windowFunction, windowLength);
+    // The window is centred inside the n_fft frame, as torch.stft does
+    const windowOffset = Math.floor((frameLength - windowLength) / 2);
+    const signal = center ? reflectPad(samples, Math.floor(frameLength / 2)) : samples;
+    const numFrames = center
+        ? 1 + Math.floor(samples.length / hop_length)
+        : Math.max(0, 1 + Math.floor((samples.length - frameLength) / hop_length));
+    const numBins = Math.floor(fftSize / 2) + 1;
+
+    const re = new Float32Array(fftSize);
+    const im = new Float32Array(fftSize);
+    const frames: Float32Array[] = [];
+
+    for (let f = 0; f < numFrames; f++) {
+        const frameStart = f * hop_length;
+        re.fill(0);
+        im.fill(0);
+        for (let i = 0; i < windowLength; i++) {
+            re[i] = (signal[frameStart + windowOffset + i] ?? 0) * analysisWindow[i];
+        }
+        transform(re, im);
+        const power = new Float32Array(numBins);
+        for (let k = 0; k < numBins; k++) {
+            power[k] = re[k] * re[k] + im[k] * im[k];
+        }
+        frames.push(power);
+    }
+
+    return { frames, fftSize };
+}
+
+/**
+ * Convert power values to decibels in place, clipping to `top_db` below the peak
+ */
+export function powerToDb(spec: Float32Array[], top_db: number): Float32Array[] {
+    let maxDb = -Infinity;
+    for (const frame of spec) {
+        for (let k = 0; k < frame.length; k++) {
+            frame[k] = 10 * Math.log10(Math.max(frame[k], 1e-10));
+            if (frame[k] > maxDb) maxDb = frame[k];
+        }
+    }
+    const floor = maxDb - top_db;
+    for (const frame of spec) {
+        for (let k = 0; k < frame.length; k++) {
+            if (frame[k] < floor) frame[k] = floor;
+        }
+    }
+    return spec;
+}
+
+/**
+ * Sample a power spectrum at fractional bin positions with linear interpolation
+ */
+function resampleBins(frames: Float32Array[], binPositions: Float32Array): Float32Array[] {
+    return frames.map((frame) => {
+        const out = new Float32Array(binPositions.length);
+        for (let r = 0; r < binPositions.length; r++) {
+            const pos = Math.min(Math.max(binPositions[r], 0), frame.length - 1);
+            const lo = Math.floor(pos);
+            const hi = Math.min(lo + 1, frame.length - 1);
+            const t = pos - lo;
+            out[r] = frame[lo] * (1 - t) + frame[hi] * t;
+        }
+        return out;
+    });
+}
+
+/**
+ * Magnitude STFT in dB with linearly spaced frequency rows between f_min and f_max
+ */
+export function linearSpectrogramDb(
+    sampleRate: number,
+    samples: Float32Array,
+    options: StftOptions,
+    f_min: number,
+    f_max: number,
+    top_db: number
+): Float32Array[] {
+    const { frames, fftSize } = powerSpectrogram(samples, options);
+    const binHz = sampleRate / fftSize;
+    const firstBin = Math.max(0, Math.floor(f_min / binHz));
+    const lastBin = Math.min(Math.floor(fftSize / 2), Math.ceil(f_max / binHz));
+    const cropped = frames.map((frame) => frame.slice(firstBin, lastBin + 1));
+    return powerToDb(cropped, top_db);
+}
+
+/**
+ * Magnitude STFT in dB with `numBins` logarithmically spaced frequency rows between f_min and f_max.
+ * f_min is raised to the first non-DC bin since the log axis cannot start at 0 Hz.
+ */
+export function logSpectrogramDb(
+    sampleRate: number,
+    samples: Float32Array,
+    options: StftOptions,
+    f_min: number,
+    f_max: number,
+    top_db: number,
+    numBins: number
+): Float32Array[] {
+    const { frames, fftSize } = powerSpectrogram(samples, options);
+    const binHz = sampleRate / fftSize;
+    const logMin = Math.log(Math.max(f_min, binHz));
+    const logMax = Math.log(Math.min(f_max, sampleRate / 2));
+    const positions = new Float32Array(numBins);
+    for (let r = 0; r < numBins; r++) {
+        const freq = Math.exp(logMin + ((logMax - logMin) * r) / Math.max(numBins - 1, 1));
+        positions[r] = freq / binHz;
+    }
+    return powerToDb(resampleBins(frames, positions), top_db);
+}
+
+/**
+ * HTK mel scale, as used by the mel filterbank
+ */
+export function hzToMel(hz: number): number {
+    return 2595 * Math.log10(1 + hz / 700);
+}
+
+export function melToHz(mel: number): number {
+    return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+/**
+ * HTK-style mel filterbank (no area normalisation, like torchaudio's default)
+ */
+function melFilterbank(sampleRate: number, fftSize: number, f_min: number, f_max: number, n_mels: number): Float32Array[] {
+    const numBins = Math.floor(fftSize / 2) + 1;
+    const melMin = hzToMel(f_min);
+    const melMax = hzToMel(f_max);
+    const points = new Float32Array(n_mels + 2);
+    for (let m = 0; m < n_mels + 2; m++) {
+        points[m] = melToHz(melMin + ((melMax - melMin) * m) / (n_mels + 1));
+    }
+
+    const filters: Float32Array[] = [];
+    for (let m = 0; m < n_mels; m++) {
+        const filter = new Float32Array(numBins);
+        const [lower, centre, upper] = [points[m], points[m + 1], points[m + 2]];
+        for (let k = 0; k < numBins; k++) {
+            const freq = (k * sampleRate) / fftSize;
+            const up = (freq - lower) / (centre - lower);
+            const down = (upper - freq) / (upper - centre);
+            filter[k] = Math.max(0, Math.min(up, down));
+        }
+        filters.push(filter);
+    }
+    return filters;
+}
+
+/**
+ * Mel spectrogram in dB computed in JavaScript, for window and padding options
+ * that rust-melspec-wasm does not support
+ */
+export function melSpectrogramDb(
+    sampleRate: number,
+    samples: Float32Array,
+    options: StftOptions,
+    f_min: number,
+    f_max: number,
+    n_mels: number,
+    top_db: number
+): Float32Array[] {
+    const { frames, fftSize } = powerSpectrogram(samples, options);
+    const filters = melFilterbank(sampleRate, fftSize, f_min, f_max, n_mels);
+    const mel = frames.map((frame) => {
+        const out = new Float32Array(n_mels);
+        for (let m = 0; m < n_mels; m++) {
+            const filter = filters[m];
+            let sum = 0;
+            for (let k = 0; k < frame.length; k++) {
+                sum += filter[k] * frame[k];
+            }
+            out[m] = sum;
+        }
+        return out;
+    });
+    return powerToDb(mel, top_db);
+}
@@ -0,0 +1,29 @@
+import { timeStretch } from "./time-stretch";
+
+// Define the worker's communication interface
+export interface StretchJobRequest {
+    id: number;
+    // Transferred to the worker, so the caller must not keep using these buffers
+    channels: Float32Array[];
+    sampleRate: number;
+    rate: number;
+}
+
+export type StretchJobResponse =
+    | { type: 'result'; id: number; channels: Float32Array[] }
+    | { type: 'error'; id: number; message: string };
+
+// Handle the incoming jobs. The stretched channels are transferred back instead of copied.
+self.onmessage = (e: MessageEvent<StretchJobRequest>) => {
+    const { id, channels, sampleRate, rate } = e.data;
+    try {
+        const start = performance.now();
+        const stretched = timeStretch(channels, sampleRate, rate);
+        console.log(`[stretch-worker] Stretched ${channels[0]?.length ?? 0} samples by ${rate}x in ${(performance.now() - start).toFixed(2)}ms`);
+        const response: StretchJobResponse = { type: 'result', id, channels: stretched };
+        self.postMessage(response, { transfer: stretched.map((channel) => channel.buffer) });
+    } catch (error) {
+        const response: StretchJobResponse = { type: 'error', id, message: String(error) };
+        self.postMessage(response);
+    }
+};
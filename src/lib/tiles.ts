@@ -0,0 +1,296 @@
+import { colorizeSpectrogram, DisplayLut } from "./colorize";
+import { DbRange, SpectrogramMatrix } from "./types";
+
+// Width of every tile in pixels, at any level
+export const TILE_WIDTH = 512;
+// Upper bound on cached tile images per source
+const MAX_CACHED_TILES = 256;
+
+export interface TileInfo {
+    key: string;
+    // Place of the tile in the pyramid, shared by every version of a tile that is still filling in
+    slot: string;
+    level: number;
+    startFrame: number;
+    frameCount: number;
+}
+
+// Convert ImageData to an object URL. Blobs avoid the base64 round trip of a dataURL.
+export async function imageDataToObjectURL(imageData: ImageData): Promise<string> {
+    const canvas = document.createElement('canvas');
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+        throw new Error("Failed to get canvas context");
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve));
+    if (!blob) {
+        throw new Error("Failed to encode spectrogram image");
+    }
+    return URL.createObjectURL(blob);
+}
+
+/**
+ * Tile pyramid over a spectrogram matrix. Level 0 has one frame per pixel and every
+ * level above halves the time resolution, so any zoom level needs only a handful of
+ * TILE_WIDTH tiles instead of one image as wide as the whole recording.
+ *
+ * `totalFrames` is the length of the whole recording in frames. While chunks are still
+ * computing the matrix only covers the start of it, and tiles stop at the last frame available.
+ * `extend` hands over the longer matrix as more chunks finish: complete tiles stay cached
+ * and the tiles still filling in only colour their new columns.
+ */
+export class SpectrogramTileSource {
+    readonly frames: number;
+    readonly maxLevel: number;
+    private available: number;
+    private cache = new Map<string, string>();
+    private pending = new Map<string, Promise<string>>();
+    // Latest cached version of each tile that is still filling in
+    private partialKeys = new Map<string, { key: string; frameCount: number }>();
+    // Pixels of those tiles, so the next version only colours the frames added since
+    private partialImages = new Map<string, { frameCount: number; image: ImageData }>();
+    // Bumped by dispose, so renders started before it are dropped
+    private generation = 0;
+    // Source this one replaced, whose tiles stand in until this one has rendered the same slots
+    private predecessor: SpectrogramTileSource | null = null;
+
+    constructor(
+        private matrix: SpectrogramMatrix,
+        private lut: DisplayLut,
+        private range: DbRange,
+        private transparent: boolean,
+        totalFrames: number = matrix.frames
+    ) {
+        this.frames = Math.max(totalFrames, matrix.frames);
+        this.available = matrix.frames;
+        // The top level covers the whole recording in a single tile
+        this.maxLevel = Math.max(0, Math.ceil(Math.log2(Math.max(1, this.frames / TILE_WIDTH))));
+    }
+
+    /**
+     * Take over a longer version of the matrix, which must start with the frames this
+     * source already has and use the same colour settings
+     */
+    extend(matrix: SpectrogramMatrix) {
+        this.matrix = matrix;
+        this.available = Math.min(matrix.frames, this.frames);
+    }
+
+    /**
+     * Whether `matrix` can be handed to `extend`
+     */
+    canExtend(matrix: SpectrogramMatrix, totalFrames: number): boolean {
+        return matrix.bins === this.matrix.bins
+            && matrix.frames >= this.available
+            && Math.max(totalFrames, matrix.frames) === this.frames;
+    }
+
+    /**
+     * Take over from `previous`, which this source replaces: its tiles are shown until this
+     * source has rendered the same slots, and are released as that happens
+     */
+    succeed(previous: SpectrogramTileSource) {
+        this.predecessor?.dispose();
+        this.predecessor = null;
+        previous.predecessor?.dispose();
+        previous.predecessor = null;
+        // Slots only cover the same frames in sources of the same length
+        if (previous.frames === this.frames) {
+            this.predecessor = previous;
+        } else {
+            previous.dispose();
+        }
+    }
+
+    /**
+     * Coarsest level that still has at least one frame per screen pixel
+     */
+    levelFor(framesPerPixel: number): number {
+        const level = Math.floor(Math.log2(Math.max(1, framesPerPixel)));
+        return Math.min(this.maxLevel, Math.max(0, level));
+    }
+
+    /**
+     * Tiles of a level that overlap the frame range [startFrame, endFrame)
+     */
+    tilesFor(level: number, startFrame: number, endFrame: number): TileInfo[] {
+        const framesPerTile = TILE_WIDTH * Math.pow(2, level);
+        const first = Math.max(0, Math.floor(startFrame / framesPerTile));
+        const last = Math.min(Math.ceil(this.available / framesPerTile), Math.ceil(endFrame / framesPerTile));
+        const tiles: TileInfo[] = [];
+        for (let index = first; index < last; index++) {
+            const tileStart = index * framesPerTile;
+            const frameCount = Math.min(framesPerTile, this.available - tileStart);
+            const slot = `${level}-${index}`;
+            // A tile still waiting for frames gets a new key each time it grows
+            const complete = frameCount === framesPerTile || this.available >= this.frames;
+            tiles.push({
+                key: complete ? slot : `${slot}@${frameCount}`,
+                slot,
+                level,
+                startFrame: tileStart,
+                frameCount,
+            });
+        }
+        return tiles;
+    }
+
+    /**
+     * Cached image URL of a tile, if it has been rendered
+     */
+    peek(tile: TileInfo): string | undefined {
+        const url = this.cache.get(tile.key);
+        if (url) {
+            // Refresh the LRU position
+            this.cache.delete(tile.key);
+            this.cache.set(tile.key, url);
+        }
+        return url;
+    }
+
+    /**
+     * Image to show while a tile is rendering: an older version of a tile that is still
+     * filling in, or the same tile of the source this one replaced
+     */
+    placeholder(tile: TileInfo): { url: string; frameCount: number } | undefined {
+        return this.latest(tile) ?? this.predecessor?.latest(tile);
+    }
+
+    private latest(tile: TileInfo): { url: string; frameCount: number } | undefined {
+        const partial = this.partialKeys.get(tile.slot);
+        const partialURL = partial && this.cache.get(partial.key);
+        if (partial && partialURL) {
+            return { url: partialURL, frameCount: partial.frameCount };
+        }
+        const url = this.cache.get(tile.slot);
+        if (!url) return undefined;
+        const framesPerTile = TILE_WIDTH * Math.pow(2, tile.level);
+        return { url, frameCount: Math.min(framesPerTile, this.available - tile.startFrame) };
+    }
+
+    /**
+     * Render a tile, or return the pending render for it
+     */
+    getTile(tile: TileInfo): Promise<string> {
+        const cached = this.peek(tile);
+        if (cached) return Promise.resolve(cached);
+        const pending = this.pending.get(tile.key);
+        if (pending) return pending;
+
+        const generation = this.generation;
+        const render = imageDataToObjectURL(this.colorize(tile)).then((url) => {
+            if (generation !== this.generation) {
+                URL.revokeObjectURL(url);
+                return url;
+            }
+            this.pending.delete(tile.key);
+            if (tile.key !== tile.slot || this.partialKeys.has(tile.slot)) {
+                const previous = this.partialKeys.get(tile.slot);
+                if (previous && previous.frameCount > tile.frameCount) {
+                    // A longer version finished first
+                    URL.revokeObjectURL(url);
+                    return url;
+                }
+                if (previous) this.remove(previous.key);
+                if (tile.key !== tile.slot) {
+                    this.partialKeys.set(tile.slot, { key: tile.key, frameCount: tile.frameCount });
+                } else {
+                    this.partialKeys.delete(tile.slot);
+                }
+            }
+            this.cache.set(tile.key, url);
+            this.evict();
+            this.predecessor?.release(tile.slot);
+            return url;
+        });
+        this.pending.set(tile.key, render);
+        return render;
+    }
+
+    private colorize(tile: TileInfo): ImageData {
+        const step = Math.pow(2, tile.level);
+        const previous = this.partialImages.get(tile.slot);
+        let image: ImageData;
+
+        if (previous && previous.frameCount < tile.frameCount) {
+            // Reuse the columns that were already full; the last one may have gained frames
+            const reused = Math.floor(previous.frameCount / step);
+            const tail = colorizeSpectrogram(this.matrix, this.lut, this.range, this.transparent, {
+                start: tile.startFrame + reused * step,
+                count: tile.frameCount - reused * step,
+                step,
+            });
+            const rows = tail.height;
+            const previousWidth = previous.image.width;
+            image = new ImageData(reused + tail.width, rows);
+            for (let row = 0; row < rows; row++) {
+                image.data.set(
+                    previous.image.data.subarray(row * previousWidth * 4, (row * previousWidth + reused) * 4),
+                    row * image.width * 4,
+                );
+                image.data.set(
+                    tail.data.subarray(row * tail.width * 4, (row + 1) * tail.width * 4),
+                    (row * image.width + reused) * 4,
+                );
+            }
+        } else {
+            image = colorizeSpectrogram(this.matrix, this.lut, this.range, this.transparent, {
+                start: tile.startFrame,
+                count: tile.frameCount,
+                step,
+            });
+        }
+
+        if (tile.key === tile.slot) {
+            this.partialImages.delete(tile.slot);
+        } else if (!previous || previous.frameCount < tile.frameCount) {
+            this.partialImages.set(tile.slot, { frameCount: tile.frameCount, image });
+        }
+        return image;
+    }
+
+    // Drop every version of a tile
+    private release(slot: string) {
+        const partial = this.partialKeys.get(slot);
+        if (partial) this.remove(partial.key);
+        this.remove(slot);
+        this.partialKeys.delete(slot);
+        this.partialImages.delete(slot);
+    }
+
+    private remove(key: string) {
+        const url = this.cache.get(key);
+        if (url) {
+            this.cache.delete(key);
+            URL.revokeObjectURL(url);
+        }
+    }
+
+    private evict() {
+        while (this.cache.size > MAX_CACHED_TILES) {
+            const [oldestKey, oldestURL] = this.cache.entries().next().value as [string, string];
+            this.cache.delete(oldestKey);
+            URL.revokeObjectURL(oldestURL);
+        }
+    }
+
+    /**
+     * Release every tile image, and those of the source this one replaced. Tiles that are
+     * drawn again afterwards are rendered anew.
+     */
+    dispose() {
+        this.generation++;
+        this.cache.forEach((url) => URL.revokeObjectURL(url));
+        this.cache.clear();
+        this.pending.clear();
+        this.partialKeys.clear();
+        this.partialImages.clear();
+        this.predecessor?.dispose();
+        this.predecessor = null;
+    }
+}
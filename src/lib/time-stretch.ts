@@ -0,0 +1,124 @@
+// WSOLA (waveform similarity overlap-add) time stretching. Frames are read from the input
+// every `rate * hop` samples and overlap-added every `hop` samples, each moved within a
+// small tolerance to where it best continues the waveform of the previous frame. The output
+// plays `rate` times faster than the input at the original pitch.
+
+const FRAME_SECONDS = 0.03;
+const TOLERANCE_SECONDS = 0.01;
+// Candidates are first compared on the mix decimated to about this rate, then refined
+// around the best one, so the search costs the same at any sample rate
+const SEARCH_RATE = 4000;
+
+function hannWindow(length: number): Float32Array {
+    const hann = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / length);
+    }
+    return hann;
+}
+
+function mixdown(channels: Float32Array[]): Float32Array {
+    if (channels.length === 1) return channels[0];
+    const mono = new Float32Array(channels[0].length);
+    for (const channel of channels) {
+        for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+    }
+    return mono;
+}
+
+function decimate(samples: Float32Array, factor: number): Float32Array {
+    const decimated = new Float32Array(Math.floor(samples.length / factor));
+    for (let i = 0; i < decimated.length; i++) {
+        let sum = 0;
+        for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+        decimated[i] = sum / factor;
+    }
+    return decimated;
+}
+
+/**
+ * Position in [from, to] whose next `length` samples correlate best with those at `target`
+ */
+function bestMatch(samples: Float32Array, target: number, from: number, to: number, length: number): number {
+    let best = from;
+    let bestScore = -Infinity;
+    for (let position = from; position <= to; position++) {
+        let score = 0;
+        for (let j = 0; j < length; j++) score += samples[position + j] * samples[target + j];
+        if (score > bestScore) {
+            bestScore = score;
+            best = position;
+        }
+    }
+    return best;
+}
+
+/**
+ * Change the speed of audio by `rate` without changing its pitch. All channels share
+ * the same frame positions, so the stereo image stays intact.
+ */
+export function timeStretch(channels: Float32Array[], sampleRate: number, rate: number): Float32Array[] {
+    if (rate === 1 || channels.length === 0) {
+        return channels.map((channel) => channel.slice());
+    }
+
+    const length = channels[0].length;
+    const frameLength = 2 * Math.round((sampleRate * FRAME_SECONDS) / 2);
+    const hop = frameLength / 2;
+    const tolerance = Math.round(sampleRate * TOLERANCE_SECONDS);
+    const outputLength = Math.ceil(length / rate);
+
+    const frameWindow = hannWindow(frameLength);
+    const outputs = channels.map(() => new Float32Array(outputLength + frameLength));
+    const weights = new Float32Array(outputLength + frameLength);
+
+    const mono = mixdown(channels);
+    const factor = Math.max(1, Math.round(sampleRate / SEARCH_RATE));
+    const coarse = decimate(mono, factor);
+    const coarseHop = Math.max(1, Math.floor(hop / factor));
+    // The coarse match is off by up to half a decimated sample either way
+    const refine = Math.ceil(factor / 2);
+
+    let previous = 0;
+    for (let out = 0; out < outputLength; out += hop) {
+        const nominal = Math.min(Math.round(out * rate), length - 1);
+        let position = out === 0 ? 0 : nominal;
+
+        // The frame should continue where the previous one would naturally have gone on
+        const target = previous + hop;
+        const from = Math.max(0, nominal - tolerance);
+        const to = Math.min(length - hop, nominal + tolerance);
+        if (out > 0 && from <= to && target + hop <= length) {
+            const coarsePosition = factor * bestMatch(
+                coarse,
+                Math.floor(target / factor),
+                Math.floor(from / factor),
+                Math.min(Math.floor(to / factor), coarse.length - coarseHop),
+                coarseHop,
+            );
+            position = bestMatch(
+                mono,
+                target,
+                Math.max(from, coarsePosition - refine),
+                Math.min(to, coarsePosition + refine),
+                hop,
+            );
+        }
+
+        const frameEnd = Math.min(frameLength, length - position);
+        for (let c = 0; c < channels.length; c++) {
+            const input = channels[c];
+            const output = outputs[c];
+            for (let j = 0; j < frameEnd; j++) output[out + j] += input[position + j] * frameWindow[j];
+        }
+        for (let j = 0; j < frameLength; j++) weights[out + j] += frameWindow[j];
+        previous = position;
+    }
+
+    return outputs.map((output) => {
+        for (let i = 0; i < outputLength; i++) {
+            if (weights[i] > 1e-3) output[i] /= weights[i];
+        }
+        return output.slice(0, outputLength);
+    });
+}
@@ -34,6 +34,74 @@ export type Colormap =
     | "chlorophyll"
     | "density"
 
+export type RGBA = [number, number, number, number];
+
+/**
+ * Custom colormap: evenly spaced RGBA stops (0-255 colour, 0-1 alpha) from low to high,
+ * or a function mapping a normalised value in [0, 1] to an RGBA colour
+ */
+export type CustomColormap = RGBA[] | ((value: number) => RGBA);
+
+export interface ToneOptions {
+    gamma: number;
+    contrast: number;
+    brightness: number;
+}
+
 export type PlayheadMode = "page" | "stop" | "loop" | "continue" | "scroll" | "scrub";
 
-export type Backend = "webaudio" | "html5";
\ No newline at end of file
+export type Backend = "webaudio" | "html5";
+
+/**
+ * Decoded audio held in memory, one Float32Array per channel
+ */
+export interface RawAudio {
+    samples: Float32Array | Float32Array[];
+    sampleRate: number;
+}
+
+/**
+ * Audio to play: a URL, encoded audio (File, Blob or ArrayBuffer), or decoded audio
+ */
+export type AudioSource = string | File | Blob | ArrayBuffer | AudioBuffer | RawAudio;
+
+export type CacheMode = "memory" | "localStorage" | "indexeddb" | "none";
+
+export type ChannelMode = "mix" | "left" | "right" | "stacked" | "mid-side";
+
+export type SpectrogramScale = "mel" | "linear" | "log";
+
+export type DbLimit = number | "auto";
+
+export type WindowFunction =
+    | "hann"
+    | "hamming"
+    | "blackman"
+    | "blackman-harris"
+    | "rectangular"
+    | { name: "kaiser"; beta: number }
+    | { name: "gaussian"; sigma: number };
+
+/**
+ * Time range selected on the spectrogram, in seconds
+ */
+export interface TimeSelection {
+    startTime: number;
+    endTime: number;
+}
+
+export interface DbRange {
+    min: number;
+    max: number;
+}
+
+/**
+ * Spectrogram in dB stored frame-major: the value of bin b in frame f is data[f * bins + b]
+ */
+export interface SpectrogramMatrix {
+    data: Float32Array;
+    frames: number;
+    bins: number;
+    min: number;
+    max: number;
+}
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { AudioSource, ChannelMode, RawAudio } from "@/lib/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -12,15 +13,16 @@ export async function decodeAudioData(arrayBuffer: ArrayBuffer, desiredSampleRat
     sampleRate: desiredSampleRate,
   });
 
-  const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+  // Browsers cap the number of open contexts, so close this one once the audio is decoded
+  const audioBuffer = await audioContext.decodeAudioData(arrayBuffer).finally(() => audioContext.close());
   let samples: Float32Array | Float32Array[];
-  // we want t o return stereo samples if available
-  if (audioBuffer.numberOfChannels === 2) {
-    console.log('[decodeAudioData] Stereo audio detected');
-    const leftChannel = audioBuffer.getChannelData(0);
-    const rightChannel = audioBuffer.getChannelData(1);
-    // return 2d array of left and right channels
-    samples = [leftChannel, rightChannel];
+  // we want to return every channel if there is more than one
+  if (audioBuffer.numberOfChannels >= 2) {
+    console.log(`[decodeAudioData] ${audioBuffer.numberOfChannels}-channel audio detected`);
+    samples = [];
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      samples.push(audioBuffer.getChannelData(channel));
+    }
   } else {
     console.log('[decodeAudioData] Mono audio detected');
     samples = audioBuffer.getChannelData(0);
@@ -28,11 +30,146 @@ export async function decodeAudioData(arrayBuffer: ArrayBuffer, desiredSampleRat
 
   return {
     samples,
-    sampleRate: audioContext.sampleRate
+    sampleRate: audioBuffer.sampleRate
   };
 }
 
 
+// Split an AudioBuffer into the same shape decodeAudioData returns
+function audioBufferToRaw(audioBuffer: AudioBuffer): RawAudio {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    channels.push(audioBuffer.getChannelData(channel));
+  }
+  return {
+    samples: channels.length >= 2 ? channels : channels[0],
+    sampleRate: audioBuffer.sampleRate,
+  };
+}
+
+// Load any supported audio source into samples. Encoded audio is decoded at the desired
+// sample rate; already decoded audio keeps its own rate.
+export async function loadAudioSource(src: AudioSource, desiredSampleRate: number): Promise<RawAudio> {
+  if (typeof src === "string") {
+    const { data: response, error } = await tryCatch<Response>(fetch(src));
+    if (error) {
+      console.error("[loadAudioSource] Error fetching audio:", error);
+      throw error;
+    }
+    return decodeAudioData(await response.arrayBuffer(), desiredSampleRate);
+  }
+  if (src instanceof Blob) {
+    return decodeAudioData(await src.arrayBuffer(), desiredSampleRate);
+  }
+  if (src instanceof ArrayBuffer) {
+    // decodeAudioData detaches its argument, and the caller still owns this buffer
+    return decodeAudioData(src.slice(0), desiredSampleRate);
+  }
+  if (src instanceof AudioBuffer) {
+    return audioBufferToRaw(src);
+  }
+  const channels = Array.isArray(src.samples) ? src.samples : [src.samples];
+  return {
+    samples: channels.length >= 2 ? channels : channels[0],
+    sampleRate: src.sampleRate,
+  };
+}
+
+// Encode samples as a 32-bit float WAV file
+export function encodeWav(samples: Float32Array | Float32Array[], sampleRate: number): Blob {
+  const channels = Array.isArray(samples) ? samples : [samples];
+  const numChannels = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const bytesPerSample = 4;
+  const dataSize = length * numChannels * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 3, true); // IEEE float
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  // Interleave the channels
+  const data = new Float32Array(buffer, 44);
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      data[i * numChannels + channel] = channels[channel][i];
+    }
+  }
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+// Something an <audio> element can play for a non-URL source
+export function audioSourceToBlob(src: Exclude<AudioSource, string>): Blob {
+  if (src instanceof Blob) return src;
+  if (src instanceof ArrayBuffer) return new Blob([src]);
+  const { samples, sampleRate } = src instanceof AudioBuffer ? audioBufferToRaw(src) : src;
+  return encodeWav(samples, sampleRate);
+}
+
+export interface ChannelLane {
+  label: string;
+  samples: Float32Array;
+}
+
+// Average any number of channels into one
+function mixChannels(channels: Float32Array[]): Float32Array {
+  const length = channels[0].length;
+  const mixed = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      mixed[i] += channel[i];
+    }
+  }
+  for (let i = 0; i < length; i++) {
+    mixed[i] /= channels.length;
+  }
+  return mixed;
+}
+
+// Pick the signals to draw, one per spectrogram lane, for a channel mode
+export function selectChannels(samples: Float32Array | Float32Array[], mode: ChannelMode): ChannelLane[] {
+  const channels = Array.isArray(samples) ? samples : [samples];
+  if (channels.length === 0) return [];
+  if (channels.length === 1) return [{ label: "", samples: channels[0] }];
+
+  switch (mode) {
+    case "left":
+      return [{ label: "L", samples: channels[0] }];
+    case "right":
+      return [{ label: "R", samples: channels[1] }];
+    case "stacked":
+      return channels.map((channel, index) => ({
+        label: channels.length === 2 ? ["L", "R"][index] : `Ch ${index + 1}`,
+        samples: channel,
+      }));
+    case "mid-side": {
+      const [left, right] = channels;
+      const mid = new Float32Array(left.length);
+      const side = new Float32Array(left.length);
+      for (let i = 0; i < left.length; i++) {
+        mid[i] = (left[i] + right[i]) / 2;
+        side[i] = (left[i] - right[i]) / 2;
+      }
+      return [{ label: "M", samples: mid }, { label: "S", samples: side }];
+    }
+    default:
+      return [{ label: "", samples: mixChannels(channels) }];
+  }
+}
 
 // Types for the result object with discriminated union
 type Success<T> = {
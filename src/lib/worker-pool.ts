@@ -0,0 +1,162 @@
+import type { FrameTrim, SpectrogramJobRequest, SpectrogramJobResponse, SpectrogramParams } from "./spectrogram-worker";
+import type { SpectrogramMatrix } from "./types";
+
+const log = (func: string, msg: string) => {
+    console.log(`[WorkerPool] ${func}: ${msg}`);
+};
+
+// Leave a core for the main thread, and don't spawn more workers than can usefully run at once
+const POOL_SIZE = Math.max(1, Math.min(8, (navigator.hardwareConcurrency || 4) - 1));
+
+export interface SpectrogramJob {
+    spectrogramData?: number[][];
+    // Transferred to the worker, so pass a copy the caller no longer needs. A function is
+    // only called once a worker takes the job, so queued jobs don't hold a copy while they wait.
+    samples: Float32Array | (() => Float32Array);
+    sampleRate: number;
+    params: SpectrogramParams;
+    trim?: FrameTrim;
+}
+
+interface QueuedJob {
+    id: number;
+    job: SpectrogramJob;
+    signal?: AbortSignal;
+    resolve: (matrix: SpectrogramMatrix | null) => void;
+    reject: (reason: unknown) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    current: QueuedJob | null;
+}
+
+function abortError(signal?: AbortSignal): unknown {
+    return signal?.reason ?? new DOMException("Spectrogram job aborted", "AbortError");
+}
+
+/**
+ * Fixed-size pool of spectrogram workers. Jobs queue until a worker is free, and an
+ * aborted job is dropped from the queue or, if it is already running, its worker is
+ * terminated and replaced, since a running STFT cannot be interrupted.
+ */
+export class SpectrogramWorkerPool {
+    readonly size: number;
+    private workers: PoolWorker[] = [];
+    private queue: QueuedJob[] = [];
+    private nextId = 0;
+
+    constructor(size: number = POOL_SIZE) {
+        this.size = size;
+    }
+
+    /**
+     * Compute the dB matrix of a job on the next free worker
+     */
+    run(job: SpectrogramJob, signal?: AbortSignal): Promise<SpectrogramMatrix | null> {
+        if (signal?.aborted) {
+            return Promise.reject(abortError(signal));
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => this.abort(queued);
+            const cleanup = () => signal?.removeEventListener("abort", onAbort);
+            // A long-lived signal would otherwise keep every finished job alive
+            const queued: QueuedJob = {
+                id: this.nextId++,
+                job,
+                signal,
+                resolve: (matrix) => {
+                    cleanup();
+                    resolve(matrix);
+                },
+                reject: (reason) => {
+                    cleanup();
+                    reject(reason);
+                },
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.queue.push(queued);
+            this.dispatch();
+        });
+    }
+
+    private dispatch() {
+        while (this.queue.length > 0) {
+            const slot = this.workers.find((poolWorker) => !poolWorker.current) ?? this.spawn();
+            if (!slot) return;
+
+            const queued = this.queue.shift() as QueuedJob;
+            slot.current = queued;
+            const { spectrogramData, sampleRate, params, trim } = queued.job;
+            const samples = typeof queued.job.samples === "function" ? queued.job.samples() : queued.job.samples;
+            const request: SpectrogramJobRequest = { id: queued.id, spectrogramData, samples, sampleRate, params, trim };
+            slot.worker.postMessage(request, [samples.buffer]);
+        }
+    }
+
+    private spawn(): PoolWorker | null {
+        if (this.workers.length >= this.size) return null;
+
+        const worker = new Worker(new URL("./spectrogram-worker.ts", import.meta.url), { type: "module" });
+        const poolWorker: PoolWorker = { worker, current: null };
+        worker.onmessage = (e: MessageEvent<SpectrogramJobResponse>) => {
+            const response = e.data;
+            if (response.type === "log") {
+                console.log(`[spectrogram-worker] ${response.data.func}: ${response.data.msg}`);
+                return;
+            }
+            const queued = poolWorker.current;
+            if (!queued || queued.id !== response.id) return;
+
+            poolWorker.current = null;
+            if (response.type === "result") {
+                queued.resolve(response.matrix);
+            } else {
+                queued.reject(new Error(response.message));
+            }
+            this.dispatch();
+        };
+        worker.onerror = (event) => {
+            log("spawn", `Worker error: ${event.message}`);
+            const queued = poolWorker.current;
+            this.replace(poolWorker);
+            queued?.reject(new Error(event.message));
+        };
+        this.workers.push(poolWorker);
+        return poolWorker;
+    }
+
+    private abort(queued: QueuedJob) {
+        const index = this.queue.indexOf(queued);
+        if (index !== -1) {
+            this.queue.splice(index, 1);
+        } else {
+            const running = this.workers.find((poolWorker) => poolWorker.current === queued);
+            if (!running) return;
+            log("abort", `Terminating worker running job ${queued.id}`);
+            this.replace(running);
+        }
+        queued.reject(abortError(queued.signal));
+    }
+
+    // Drop a worker; a fresh one is spawned when the queue needs it
+    private replace(poolWorker: PoolWorker) {
+        poolWorker.worker.terminate();
+        poolWorker.current = null;
+        this.workers = this.workers.filter((other) => other !== poolWorker);
+        this.dispatch();
+    }
+}
+
+let sharedPool: SpectrogramWorkerPool | null = null;
+
+/**
+ * The pool shared by every player on the page, created on first use
+ */
+export function getWorkerPool(): SpectrogramWorkerPool {
+    if (!sharedPool) {
+        sharedPool = new SpectrogramWorkerPool();
+    }
+    return sharedPool;
+}